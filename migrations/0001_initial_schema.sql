@@ -1,3 +1,7 @@
+-- Initial schema: projects, branches, timeline nodes and views
+
+-- migrate:up
+
 -- Enum type for node types
 CREATE TYPE node_type AS ENUM (
     'root',              -- Project starting point (train station)
@@ -142,4 +146,19 @@ FROM
     JOIN branches b ON bp.id = b.branch_point_node_id
     LEFT JOIN timeline_nodes br ON (br.branch_id = b.id AND br.type = 'branch-root')
 WHERE 
-    bp.type = 'branch-point';
\ No newline at end of file
+    bp.type = 'branch-point';
+
+-- migrate:down
+
+DROP VIEW IF EXISTS branch_points;
+DROP VIEW IF EXISTS conversation_threads;
+DROP VIEW IF EXISTS branch_hierarchy;
+
+ALTER TABLE IF EXISTS branches DROP CONSTRAINT IF EXISTS fk_branch_point;
+
+DROP TABLE IF EXISTS timeline_nodes;
+DROP TABLE IF EXISTS branches;
+DROP TABLE IF EXISTS projects;
+
+DROP TYPE IF EXISTS node_status;
+DROP TYPE IF EXISTS node_type;
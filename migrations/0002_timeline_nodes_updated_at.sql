@@ -0,0 +1,16 @@
+-- Track when a timeline node was last modified
+
+-- migrate:up
+
+ALTER TABLE timeline_nodes ADD COLUMN updated_at TIMESTAMP;
+
+-- Existing nodes were last modified when they were created
+UPDATE timeline_nodes SET updated_at = created_at;
+
+ALTER TABLE timeline_nodes
+    ALTER COLUMN updated_at SET NOT NULL,
+    ALTER COLUMN updated_at SET DEFAULT NOW();
+
+-- migrate:down
+
+ALTER TABLE timeline_nodes DROP COLUMN updated_at;
@@ -0,0 +1,43 @@
+-- Publish node and branch changes on the project_changes channel so clients can be
+-- updated live. Payloads only carry identifiers; listeners load the current row.
+
+-- migrate:up
+
+CREATE FUNCTION notify_project_change() RETURNS trigger AS $$
+DECLARE
+    changed RECORD;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        changed := OLD;
+    ELSE
+        changed := NEW;
+    END IF;
+
+    PERFORM pg_notify('project_changes', json_build_object(
+        'project_id', changed.project_id,
+        'entity', TG_ARGV[0],
+        'action', CASE TG_OP
+            WHEN 'INSERT' THEN 'created'
+            WHEN 'UPDATE' THEN 'updated'
+            ELSE 'deleted'
+        END,
+        'id', changed.id
+    )::text);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER timeline_nodes_notify_change
+    AFTER INSERT OR UPDATE OR DELETE ON timeline_nodes
+    FOR EACH ROW EXECUTE FUNCTION notify_project_change('node');
+
+CREATE TRIGGER branches_notify_change
+    AFTER INSERT OR UPDATE OR DELETE ON branches
+    FOR EACH ROW EXECUTE FUNCTION notify_project_change('branch');
+
+-- migrate:down
+
+DROP TRIGGER IF EXISTS branches_notify_change ON branches;
+DROP TRIGGER IF EXISTS timeline_nodes_notify_change ON timeline_nodes;
+DROP FUNCTION IF EXISTS notify_project_change();
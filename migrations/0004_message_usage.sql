@@ -0,0 +1,22 @@
+-- Record token usage, model and latency of assistant messages
+
+-- migrate:up
+
+ALTER TABLE timeline_nodes
+    ADD COLUMN input_tokens INTEGER,
+    ADD COLUMN output_tokens INTEGER,
+    ADD COLUMN model VARCHAR(255),
+    ADD COLUMN latency_ms INTEGER;
+
+-- Keep the model of existing answers, which was only recorded in the metadata
+UPDATE timeline_nodes
+SET model = metadata->>'model'
+WHERE type = 'assistant-message' AND metadata ? 'model';
+
+-- migrate:down
+
+ALTER TABLE timeline_nodes
+    DROP COLUMN latency_ms,
+    DROP COLUMN model,
+    DROP COLUMN output_tokens,
+    DROP COLUMN input_tokens;
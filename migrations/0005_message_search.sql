@@ -0,0 +1,11 @@
+-- Full-text search over message text
+
+-- migrate:up
+
+-- Queries must use the same expression for the index to apply
+CREATE INDEX idx_nodes_message_search ON timeline_nodes
+    USING GIN (to_tsvector('english', COALESCE(message_text, '')));
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_nodes_message_search;
@@ -0,0 +1,110 @@
+-- Computed branch layouts, cached per layout algorithm and kept apart from branch metadata
+
+-- migrate:up
+
+-- Bumped by every change that invalidates the layouts of a project
+ALTER TABLE projects ADD COLUMN layout_version BIGINT NOT NULL DEFAULT 0;
+
+CREATE TABLE branch_layouts (
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    algorithm VARCHAR(20) NOT NULL, -- Layout service that computed the entry: slot, tree or elk
+    x DOUBLE PRECISION NOT NULL,
+    y DOUBLE PRECISION NOT NULL,
+    width DOUBLE PRECISION NOT NULL,
+    height DOUBLE PRECISION NOT NULL,
+    direction VARCHAR(10) NOT NULL,
+    sibling_index INTEGER NOT NULL DEFAULT 0,
+    level INTEGER NOT NULL DEFAULT 0,
+    node_layouts JSONB NOT NULL DEFAULT '{}', -- Stations of the branch, keyed by node ID
+    -- Set when the branches or nodes of the project change; stale positions are still kept
+    -- so an incremental layout can place new branches around them
+    stale BOOLEAN NOT NULL DEFAULT false,
+    -- projects.layout_version the entry was computed from; older entries are not served
+    layout_version BIGINT NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (project_id, algorithm, branch_id)
+);
+
+CREATE INDEX idx_branch_layouts_branch ON branch_layouts(branch_id);
+
+CREATE FUNCTION invalidate_branch_layouts() RETURNS trigger AS $$
+DECLARE
+    changed RECORD;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        changed := OLD;
+    ELSE
+        changed := NEW;
+    END IF;
+
+    UPDATE branch_layouts
+    SET stale = true
+    WHERE project_id = changed.project_id AND NOT stale;
+
+    UPDATE projects
+    SET layout_version = layout_version + 1
+    WHERE id = changed.project_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only changes to the shape of the map invalidate; streamed message text does not
+CREATE TRIGGER timeline_nodes_invalidate_layouts
+    AFTER INSERT OR DELETE OR UPDATE OF branch_id, parent_id, type, position ON timeline_nodes
+    FOR EACH ROW EXECUTE FUNCTION invalidate_branch_layouts();
+
+-- Branch metadata carries the direction hints of the layout
+CREATE TRIGGER branches_invalidate_layouts
+    AFTER INSERT OR DELETE OR UPDATE OF parent_branch_id, branch_point_node_id, depth, metadata ON branches
+    FOR EACH ROW EXECUTE FUNCTION invalidate_branch_layouts();
+
+-- Keep the positions computed so far, which were last written by the tree layout by default
+INSERT INTO branch_layouts (
+    project_id, branch_id, algorithm, x, y, width, height, direction, sibling_index, level, stale
+)
+SELECT
+    project_id,
+    id,
+    'tree',
+    (metadata->'layout'->>'x')::DOUBLE PRECISION,
+    COALESCE((metadata->'layout'->>'y')::DOUBLE PRECISION, 0),
+    140,
+    100,
+    COALESCE(metadata->'layout'->>'direction', 'auto'),
+    COALESCE((metadata->'layout'->>'siblingIndex')::INTEGER, 0),
+    COALESCE((metadata->'layout'->>'level')::INTEGER, depth),
+    true
+FROM branches
+WHERE jsonb_typeof(metadata->'layout'->'x') = 'number';
+
+-- Branch metadata keeps only the direction hint
+UPDATE branches
+SET metadata = jsonb_set(metadata, '{layout}', (metadata->'layout') - 'x' - 'y' - 'siblingIndex' - 'level')
+WHERE jsonb_typeof(metadata->'layout') = 'object';
+
+-- migrate:down
+
+DROP TRIGGER IF EXISTS branches_invalidate_layouts ON branches;
+DROP TRIGGER IF EXISTS timeline_nodes_invalidate_layouts ON timeline_nodes;
+DROP FUNCTION IF EXISTS invalidate_branch_layouts();
+
+-- Move the tree layout positions back into branch metadata
+UPDATE branches b
+SET metadata = jsonb_set(
+    COALESCE(b.metadata, '{}'),
+    '{layout}',
+    COALESCE(b.metadata->'layout', '{}') || jsonb_build_object(
+        'x', l.x,
+        'y', l.y,
+        'siblingIndex', l.sibling_index,
+        'level', l.level
+    )
+)
+FROM branch_layouts l
+WHERE l.branch_id = b.id AND l.algorithm = 'tree';
+
+DROP TABLE IF EXISTS branch_layouts;
+
+ALTER TABLE projects DROP COLUMN IF EXISTS layout_version;
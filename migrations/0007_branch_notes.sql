@@ -0,0 +1,21 @@
+-- Versioned notes attached to a branch (latest version is the current note)
+
+-- migrate:up
+
+-- Databases migrated before notes had their own migration already have the table
+CREATE TABLE IF NOT EXISTS branch_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE (branch_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_branch_notes_branch_version ON branch_notes(branch_id, version DESC);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS branch_notes;
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+/**
+ * Database migration runner
+ *
+ * Usage:
+ *   npm run migrate                      Apply all pending migrations
+ *   npm run migrate -- up [version]      Apply pending migrations up to a version
+ *   npm run migrate:down -- [steps]      Revert the last migration (or the last N)
+ *   npm run migrate:status               List migrations and whether they are applied
+ *   npm run migrate -- baseline <version>
+ *                                        Record migrations up to a version as applied
+ *                                        without running them (for databases created
+ *                                        from the old schema.sql)
+ *
+ * Connects to DATABASE_URL, loaded from .env.local when it is not already set.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Pool } from 'pg';
+import {
+  baselineMigrations,
+  getMigrationStatus,
+  loadMigrations,
+  migrateDown,
+  migrateUp
+} from '../src/lib/migrations';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../migrations');
+
+// Load environment variables from .env.local
+const envFile = path.resolve(__dirname, '../.env.local');
+if (fs.existsSync(envFile)) {
+  const envContent = fs.readFileSync(envFile, 'utf8');
+  envContent.split('\n').forEach(line => {
+    const match = line.match(/^([^=]+)=(.*)$/);
+    if (match && !match[1].startsWith('#') && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^['"](.*)['"]$/, '$1').trim();
+    }
+  });
+}
+
+async function main() {
+  const [command = 'up', argument] = process.argv.slice(2);
+
+  const databaseUrl = (process.env.DATABASE_URL || '').trim();
+  if (!databaseUrl) {
+    throw new Error('DATABASE_URL is not set');
+  }
+
+  const pool = new Pool({
+    connectionString: databaseUrl,
+    ssl: process.env.NODE_ENV === 'production'
+      ? { rejectUnauthorized: false }
+      : false
+  });
+
+  try {
+    const migrations = await loadMigrations(MIGRATIONS_DIR);
+
+    switch (command) {
+      case 'up': {
+        const applied = await migrateUp(pool, migrations, argument);
+        console.log(applied.length > 0
+          ? `Applied ${applied.length} migration(s)`
+          : 'Database is up to date');
+        break;
+      }
+      case 'down': {
+        const steps = argument ? parseInt(argument, 10) : 1;
+        if (!Number.isInteger(steps) || steps < 1) {
+          throw new Error(`Invalid number of steps: ${argument}`);
+        }
+        const reverted = await migrateDown(pool, migrations, steps);
+        console.log(reverted.length > 0
+          ? `Reverted ${reverted.length} migration(s)`
+          : 'No migrations to revert');
+        break;
+      }
+      case 'status': {
+        const status = await getMigrationStatus(pool, migrations);
+        status.forEach(({ migration, applied_at }) => {
+          console.log(`${applied_at ? '[x]' : '[ ]'} ${migration.file}${applied_at ? `  (${new Date(applied_at).toISOString()})` : ''}`);
+        });
+        break;
+      }
+      case 'baseline': {
+        if (!argument) {
+          throw new Error('Usage: migrate baseline <version>');
+        }
+        const recorded = await baselineMigrations(pool, migrations, argument);
+        console.log(`Recorded ${recorded.length} migration(s) as applied`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${command}`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(error => {
+  console.error('Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,222 @@
+import { query, withTransaction } from '@/lib/db';
+import { LLMProviderFactory } from '@/lib/llm/llmProviderFactory';
+import { NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * API endpoint for merging a branch back into another line
+ *
+ * The source branch's messages since its branch point are summarized by the assistant,
+ * the summary is appended to the target branch as a new station, and the source branch
+ * is marked as merged (it is kept, not deleted).
+ */
+export async function POST(
+  req: Request,
+  context: { params: { id: string; }; }
+) {
+  const { id } = await context.params;
+  if (!id) {
+    return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { targetBranchId = 'main', created_by = 'ai' } = body;
+
+    console.log(`[branches/merge] Merging branch ${id} into ${targetBranchId}`);
+
+    // Load the source branch
+    const sourceResult = await query(
+      'SELECT * FROM branches WHERE id = $1',
+      [id]
+    );
+
+    if (sourceResult.rows.length === 0) {
+      return NextResponse.json({ error: 'Branch not found' }, { status: 404 });
+    }
+
+    const sourceBranch = sourceResult.rows[0];
+
+    if (sourceBranch.depth === 0) {
+      return NextResponse.json(
+        { error: 'The main branch cannot be merged' },
+        { status: 400 }
+      );
+    }
+
+    if (sourceBranch.metadata?.merge) {
+      return NextResponse.json(
+        { error: 'Branch has already been merged' },
+        { status: 409 }
+      );
+    }
+
+    // Resolve the target branch ('main' refers to the project's depth 0 branch)
+    const targetResult = targetBranchId === 'main'
+      ? await query(
+        'SELECT * FROM branches WHERE project_id = $1 AND depth = 0 ORDER BY created_at ASC LIMIT 1',
+        [sourceBranch.project_id]
+      )
+      : await query(
+        'SELECT * FROM branches WHERE id = $1 AND project_id = $2',
+        [targetBranchId, sourceBranch.project_id]
+      );
+
+    if (targetResult.rows.length === 0) {
+      return NextResponse.json({ error: 'Target branch not found' }, { status: 404 });
+    }
+
+    const targetBranch = targetResult.rows[0];
+
+    if (targetBranch.id === sourceBranch.id) {
+      return NextResponse.json(
+        { error: 'A branch cannot be merged into itself' },
+        { status: 400 }
+      );
+    }
+
+    // Messages on the source branch since its branch point
+    const messagesResult = await query(`
+      SELECT message_text, message_role, type
+      FROM timeline_nodes
+      WHERE branch_id = $1 AND type IN ('user-message', 'assistant-message')
+      ORDER BY position ASC
+    `, [sourceBranch.id]);
+
+    if (messagesResult.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Branch has no messages to merge' },
+        { status: 400 }
+      );
+    }
+
+    const transcript = messagesResult.rows
+      .map(row => `${row.type === 'user-message' ? 'User' : 'Assistant'}: ${row.message_text || ''}`)
+      .join('\n\n');
+
+    // Summarize the branch before opening the transaction so no connection is held during the API call
+    const provider = await LLMProviderFactory.getProviderForProject(sourceBranch.project_id);
+    const startedAt = Date.now();
+
+    const summaryResponse = await provider.complete({
+      system: `You summarize side conversations so their conclusions can be brought back into the main discussion.
+
+Write a concise summary of the conversation branch below. Focus on the conclusions, decisions and open questions. Do not describe the conversation turn by turn.`,
+      messages: [{
+        role: 'user',
+        content: `Branch "${sourceBranch.name || 'Unnamed Branch'}":\n\n${transcript}`
+      }]
+    });
+
+    const summaryText = summaryResponse.text;
+    const latencyMs = Date.now() - startedAt;
+
+    if (!summaryText) {
+      throw new Error('Assistant returned an empty merge summary');
+    }
+
+    const mergedAt = new Date().toISOString();
+    const mergeNodeId = uuidv4();
+
+    return await withTransaction(async (client) => {
+      // Lock the source branch and make sure a concurrent request has not merged it meanwhile
+      const lockResult = await client.query(
+        'SELECT metadata FROM branches WHERE id = $1 FOR UPDATE',
+        [sourceBranch.id]
+      );
+
+      if (lockResult.rows[0]?.metadata?.merge) {
+        return NextResponse.json(
+          { error: 'Branch has already been merged' },
+          { status: 409 }
+        );
+      }
+
+      // Append after the last node of the target branch
+      const lastNodeResult = await client.query(`
+        SELECT id, position
+        FROM timeline_nodes
+        WHERE branch_id = $1
+        ORDER BY position DESC, created_at DESC
+        LIMIT 1
+      `, [targetBranch.id]);
+
+      if (lastNodeResult.rows.length === 0) {
+        return NextResponse.json(
+          { error: 'Target branch has no nodes to attach to' },
+          { status: 400 }
+        );
+      }
+
+      const lastNode = lastNodeResult.rows[0];
+      const mergeMetadata = {
+        source_branch_id: sourceBranch.id,
+        source_branch_name: sourceBranch.name,
+        source_branch_color: sourceBranch.color,
+        message_count: messagesResult.rows.length,
+        merged_at: mergedAt
+      };
+
+      // Create the merge station on the target branch, with the usage of the summary so it
+      // counts towards the cost of the branch like any other answer
+      await client.query(`
+        INSERT INTO timeline_nodes (
+          id, project_id, branch_id, parent_id,
+          type, message_text, message_role, created_by, created_at, position, metadata,
+          model, input_tokens, output_tokens, latency_ms
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), $9, $10, $11, $12, $13, $14)
+      `, [
+        mergeNodeId,
+        sourceBranch.project_id,
+        targetBranch.id,
+        lastNode.id,
+        'assistant-message',
+        summaryText,
+        'assistant',
+        created_by,
+        lastNode.position + 1,
+        JSON.stringify({ merge: mergeMetadata }),
+        summaryResponse.model,
+        summaryResponse.usage?.input_tokens ?? null,
+        summaryResponse.usage?.output_tokens ?? null,
+        latencyMs
+      ]);
+
+      // Mark the source branch as merged rather than deleting it
+      await client.query(`
+        UPDATE branches
+        SET is_active = false,
+            metadata = COALESCE(metadata, '{}'::jsonb) || $1::jsonb
+        WHERE id = $2
+      `, [
+        JSON.stringify({
+          merge: {
+            target_branch_id: targetBranch.id,
+            merge_node_id: mergeNodeId,
+            merged_at: mergedAt
+          }
+        }),
+        sourceBranch.id
+      ]);
+
+      console.log(`[branches/merge] Branch ${id} merged into ${targetBranch.id} as node ${mergeNodeId}`);
+
+      return NextResponse.json({
+        merged: true,
+        mainBranchId: targetBranch.id,
+        sourceBranchId: sourceBranch.id,
+        mergeNodeId,
+        summary: summaryText
+      });
+    });
+  } catch (error) {
+    console.error('[branches/merge] Error merging branch:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to merge branch',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { query, withTransaction } from '@/lib/db';
+import { NextResponse } from 'next/server';
+
+/**
+ * API endpoint for reading, updating, and clearing the notes of a branch
+ *
+ * Notes are versioned: every PUT stores a new version and the latest version is the current note.
+ */
+export async function GET(
+  req: Request,
+  context: { params: { id: string; }; }
+) {
+  const { id } = await context.params;
+  if (!id) {
+    return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+  }
+
+  try {
+    const branchResult = await query('SELECT id FROM branches WHERE id = $1', [id]);
+
+    if (branchResult.rows.length === 0) {
+      return NextResponse.json({ error: 'Branch not found' }, { status: 404 });
+    }
+
+    const notesResult = await query(`
+      SELECT *
+      FROM branch_notes
+      WHERE branch_id = $1
+      ORDER BY version DESC
+    `, [id]);
+
+    return NextResponse.json({
+      notes: notesResult.rows[0] || null,
+      history: notesResult.rows
+    });
+  } catch (error) {
+    console.error('Database error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch branch notes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  req: Request,
+  context: { params: { id: string; }; }
+) {
+  const { id } = await context.params;
+  if (!id) {
+    return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+  }
+
+  try {
+    const body = await req.json();
+    const { notes, created_by = 'user' } = body;
+
+    if (typeof notes !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: notes' },
+        { status: 400 }
+      );
+    }
+
+    return await withTransaction(async (client) => {
+      // Lock the branch so concurrent saves get distinct versions
+      const branchResult = await client.query(
+        'SELECT id, project_id FROM branches WHERE id = $1 FOR UPDATE',
+        [id]
+      );
+
+      if (branchResult.rows.length === 0) {
+        return NextResponse.json({ error: 'Branch not found' }, { status: 404 });
+      }
+
+      const branch = branchResult.rows[0];
+
+      // Store the notes as the next version for this branch
+      const result = await client.query(`
+        INSERT INTO branch_notes (branch_id, project_id, version, content, created_by)
+        SELECT $1, $2, COALESCE(MAX(version), 0) + 1, $3, $4
+        FROM branch_notes
+        WHERE branch_id = $1
+        RETURNING *
+      `, [id, branch.project_id, notes, created_by]);
+
+      return NextResponse.json(result.rows[0]);
+    });
+  } catch (error) {
+    console.error('Database error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update branch notes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  context: { params: { id: string; }; }
+) {
+  const { id } = await context.params;
+  if (!id) {
+    return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+  }
+
+  try {
+    // Remove every version of the branch notes
+    const result = await query(
+      'DELETE FROM branch_notes WHERE branch_id = $1 RETURNING id',
+      [id]
+    );
+
+    return NextResponse.json({
+      success: true,
+      deleted_count: result.rowCount
+    });
+  } catch (error) {
+    console.error('Database error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete branch notes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
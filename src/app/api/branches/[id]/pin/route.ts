@@ -0,0 +1,132 @@
+import { query, withTransaction } from '@/lib/db';
+import { NextResponse } from 'next/server';
+
+/**
+ * API endpoint for pinning a branch line where it was dragged in the minimap
+ *
+ * The pin is stored under `branches.metadata.layout.pin` as the horizontal offset from the
+ * parent line in map coordinates. Layout services keep pinned lines at that offset and
+ * place the other lines around them.
+ */
+export async function PUT(
+	req: Request,
+	context: { params: { id: string; }; }
+) {
+	const { id } = await context.params;
+	if (!id) {
+		return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+	}
+
+	try {
+		const body = await req.json();
+		const offsetX = body.offsetX;
+
+		if (typeof offsetX !== 'number' || !Number.isFinite(offsetX)) {
+			return NextResponse.json(
+				{ error: 'Invalid pin: offsetX must be a finite number' },
+				{ status: 400 }
+			);
+		}
+
+		const branchResult = await query('SELECT parent_branch_id FROM branches WHERE id = $1', [id]);
+
+		if (branchResult.rows.length === 0) {
+			return NextResponse.json({ error: 'Branch not found' }, { status: 404 });
+		}
+		if (!branchResult.rows[0].parent_branch_id) {
+			return NextResponse.json({ error: 'The main line cannot be pinned' }, { status: 400 });
+		}
+
+		// Set the pin while keeping the rest of the layout metadata (direction hint)
+		const result = await query(`
+			UPDATE branches
+			SET metadata = jsonb_set(
+				COALESCE(metadata, '{}'::jsonb),
+				'{layout}',
+				COALESCE(metadata->'layout', '{}'::jsonb) || jsonb_build_object('pin', jsonb_build_object('offsetX', $1::float8))
+			)
+			WHERE id = $2
+			RETURNING *
+		`, [offsetX, id]);
+
+		return NextResponse.json(result.rows[0]);
+	} catch (error) {
+		console.error('Database error:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to pin branch',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
+
+/**
+ * Reset a branch to the automatic layout
+ *
+ * Removes the pin and the positions stored for the branch and its descendants, so the
+ * layout places them again as if they were new. Pins of descendants are kept.
+ */
+export async function DELETE(
+	req: Request,
+	context: { params: { id: string; }; }
+) {
+	const { id } = await context.params;
+	if (!id) {
+		return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+	}
+
+	try {
+		const branch = await withTransaction(async (client) => {
+			const result = await client.query(`
+				UPDATE branches
+				SET metadata = jsonb_set(metadata, '{layout}', (metadata->'layout') - 'pin')
+				WHERE id = $1 AND jsonb_typeof(metadata->'layout') = 'object'
+				RETURNING *
+			`, [id]);
+
+			// Without stored positions the branch and the lines hanging from it are placed again;
+			// the rest of the cached layout no longer includes them
+			await client.query(`
+				WITH RECURSIVE subtree AS (
+					SELECT id FROM branches WHERE id = $1
+					UNION ALL
+					SELECT b.id FROM branches b JOIN subtree s ON b.parent_branch_id = s.id
+				)
+				DELETE FROM branch_layouts WHERE branch_id IN (SELECT id FROM subtree)
+			`, [id]);
+			await client.query(`
+				UPDATE branch_layouts
+				SET stale = true
+				WHERE project_id = (SELECT project_id FROM branches WHERE id = $1)
+			`, [id]);
+			await client.query(`
+				UPDATE projects
+				SET layout_version = layout_version + 1
+				WHERE id = (SELECT project_id FROM branches WHERE id = $1)
+			`, [id]);
+
+			if (result.rows.length > 0) {
+				return result.rows[0];
+			}
+			const existing = await client.query('SELECT * FROM branches WHERE id = $1', [id]);
+			return existing.rows[0] || null;
+		});
+
+		if (!branch) {
+			return NextResponse.json({ error: 'Branch not found' }, { status: 404 });
+		}
+
+		return NextResponse.json(branch);
+	} catch (error) {
+		console.error('Database error:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to reset branch layout',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
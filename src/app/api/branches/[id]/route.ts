@@ -1,4 +1,5 @@
-import { query } from '@/lib/db';
+import { query, withTransaction } from '@/lib/db';
+import { getBranchUsage } from '@/lib/usage';
 import { NextResponse } from 'next/server';
 
 /**
@@ -56,10 +57,14 @@ export async function GET(
       LIMIT 5
     `, [id]);
 
+    // Token usage and estimated cost of the answers on this branch
+    const usage = await getBranchUsage(id);
+
     return NextResponse.json({
       ...result.rows[0],
       branch_point: branchPointResult.rows[0] || null,
-      recent_messages: messagesResult.rows
+      recent_messages: messagesResult.rows,
+      usage
     });
   } catch (error) {
     console.error('Database error:', error);
@@ -84,12 +89,13 @@ export async function PUT(
 
   try {
     const data = await req.json();
+    // Metadata is merged into the stored one, so keys the client did not send are kept
     const result = await query(
       `UPDATE branches
        SET name = $1,
            color = $2,
            is_active = $3,
-           metadata = $4
+           metadata = COALESCE(metadata, '{}'::jsonb) || $4::jsonb
        WHERE id = $5
        RETURNING *`,
       [
@@ -131,12 +137,22 @@ export async function DELETE(
   }
 
   try {
-    // Start a transaction
-    await query('BEGIN');
-    
-    try {
+    return await withTransaction(async (client) => {
+      // Lock the branch so no child branch can be created while it is deleted
+      const branchCheck = await client.query(
+        `SELECT id FROM branches WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+
+      if (branchCheck.rows.length === 0) {
+        return NextResponse.json(
+          { error: 'Branch not found' },
+          { status: 404 }
+        );
+      }
+
       // Check if this branch has child branches
-      const childBranchCheck = await query(
+      const childBranchCheck = await client.query(
         `SELECT COUNT(*) AS child_count FROM branches WHERE parent_branch_id = $1`,
         [id]
       );
@@ -149,30 +165,16 @@ export async function DELETE(
       }
       
       // Delete will cascade to timeline_nodes due to foreign key constraints
-      const result = await query(
+      const result = await client.query(
         `DELETE FROM branches WHERE id = $1 RETURNING id, name, project_id`,
         [id]
       );
 
-      if (result.rows.length === 0) {
-        return NextResponse.json(
-          { error: 'Branch not found' },
-          { status: 404 }
-        );
-      }
-      
-      // Commit the transaction
-      await query('COMMIT');
-
       return NextResponse.json({ 
         deleted: true,
         branch: result.rows[0]
       });
-    } catch (error) {
-      // Rollback on error
-      await query('ROLLBACK');
-      throw error;
-    }
+    });
   } catch (error) {
     console.error('Database error:', error);
     return NextResponse.json(
@@ -0,0 +1,96 @@
+import { query } from '@/lib/db';
+import { resolveGenerationSettings } from '@/lib/generationSettings';
+import { generationSettingsSchema } from '@/lib/schemas/forms';
+import { NextResponse } from 'next/server';
+
+/**
+ * API endpoint for reading and updating a branch's generation settings overrides
+ *
+ * Overrides are stored under `branches.metadata.generation` and take precedence over
+ * the project settings and the overrides of ancestor branches.
+ */
+export async function GET(
+  req: Request,
+  context: { params: { id: string; }; }
+) {
+  const { id } = await context.params;
+  if (!id) {
+    return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+  }
+
+  try {
+    const result = await query('SELECT metadata FROM branches WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Branch not found' }, { status: 404 });
+    }
+
+    const resolved = await resolveGenerationSettings(id);
+
+    return NextResponse.json({
+      generation: result.rows[0].metadata?.generation || {},
+      resolved: resolved.settings,
+      sources: resolved.sources
+    });
+  } catch (error) {
+    console.error('Database error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch branch settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  req: Request,
+  context: { params: { id: string; }; }
+) {
+  const { id } = await context.params;
+  if (!id) {
+    return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = generationSettingsSchema.safeParse(body.generation ?? {});
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid generation settings', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Replace the overrides while keeping the rest of the branch metadata (layout, merge, ...)
+    const result = await query(`
+      UPDATE branches
+      SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('generation', $1::jsonb)
+      WHERE id = $2
+      RETURNING id
+    `, [JSON.stringify(parsed.data), id]);
+
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Branch not found' }, { status: 404 });
+    }
+
+    const resolved = await resolveGenerationSettings(id);
+
+    return NextResponse.json({
+      generation: parsed.data,
+      resolved: resolved.settings,
+      sources: resolved.sources
+    });
+  } catch (error) {
+    console.error('Database error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update branch settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
-import { query } from '@/lib/db';
+import { withTransaction } from '@/lib/db';
 import { NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 import { BranchColorManager } from '@/lib/utils/branchColorManager';
+import { generationSettingsSchema } from '@/lib/schemas/forms';
 
 /**
  * API endpoint for creating new branches from existing messages
@@ -17,7 +18,10 @@ export async function POST(req: Request) {
       branch_point_node_id, 
       name, 
       created_by = 'system',
-      direction = 'auto'
+      direction = 'auto',
+      regenerated_from,
+      edited_from,
+      generation
     } = body;
 
     console.log(`[branches/POST] Creating branch: project=${project_id}, parent=${parent_branch_id}, point=${branch_point_node_id}, direction=${direction}`);
@@ -41,27 +45,43 @@ export async function POST(req: Request) {
       );
     }
 
-    // Begin transaction
-    await query('BEGIN');
-    console.log(`[branches/POST] Transaction started`);
+    // Validate generation overrides for the new branch, if provided
+    const parsedGeneration = generation ? generationSettingsSchema.safeParse(generation) : null;
+    if (parsedGeneration && !parsedGeneration.success) {
+      console.error(`[branches/POST] Invalid generation settings:`, parsedGeneration.error.flatten());
+      return NextResponse.json(
+        { error: 'Invalid generation settings', details: parsedGeneration.error.flatten() },
+        { status: 400 }
+      );
+    }
 
-    try {
+    return await withTransaction(async (client) => {
       // Check that parent branch exists
-      const branchCheck = await query(
+      const branchCheck = await client.query(
         'SELECT depth FROM branches WHERE id = $1',
         [parent_branch_id]
       );
 
       if (branchCheck.rows.length === 0) {
         console.error(`[branches/POST] Parent branch not found: ${parent_branch_id}`);
-        await query('ROLLBACK');
         return NextResponse.json({ error: 'Parent branch not found' }, { status: 404 });
       }
 
       console.log(`[branches/POST] Parent branch found with depth: ${branchCheck.rows[0].depth}`);
 
+      // Lock the message so concurrent requests cannot each create a branch point for it
+      const messageCheck = await client.query(
+        'SELECT id FROM timeline_nodes WHERE id = $1 FOR UPDATE',
+        [branch_point_node_id]
+      );
+
+      if (messageCheck.rows.length === 0) {
+        console.error(`[branches/POST] Branch point message not found: ${branch_point_node_id}`);
+        return NextResponse.json({ error: 'Branch point message not found' }, { status: 404 });
+      }
+
       // Check if a branch point already exists for this message
-      const branchPointCheck = await query(
+      const branchPointCheck = await client.query(
         `SELECT id FROM timeline_nodes 
          WHERE parent_id = $1 AND type = 'branch-point'`,
         [branch_point_node_id]
@@ -72,41 +92,14 @@ export async function POST(req: Request) {
       if (branchPointCheck.rows.length > 0) {
         // Branch point already exists
         branchPointNodeId = branchPointCheck.rows[0].id;
+        // Any number of branches can fork from the same point; the layout fans them out
         console.log(`[branches/POST] Using existing branch point: ${branchPointNodeId}`);
-        
-        // Check if a branch already exists in the requested direction
-        const existingBranchesCheck = await query(
-          `SELECT id, metadata FROM branches 
-           WHERE branch_point_node_id = $1`,
-          [branchPointNodeId]
-        );
-        
-        console.log(`[branches/POST] Found ${existingBranchesCheck.rows.length} existing branches at this point`);
-        
-        // Check if the direction is already taken
-        const directionTaken = existingBranchesCheck.rows.some(branch => {
-          try {
-            const metadata = branch.metadata || {};
-            return metadata.layout?.direction === direction;
-          } catch {
-            return false;
-          }
-        });
-        
-        if (directionTaken) {
-          console.error(`[branches/POST] A branch already exists in the ${direction} direction`);
-          await query('ROLLBACK');
-          return NextResponse.json(
-            { error: `A branch already exists in the ${direction} direction` },
-            { status: 409 }
-          );
-        }
       } else {
         // Create a new branch point node
         branchPointNodeId = uuidv4();
         console.log(`[branches/POST] Creating new branch point: ${branchPointNodeId}`);
         
-        await query(
+        await client.query(
           `INSERT INTO timeline_nodes (
             id, project_id, branch_id, parent_id,
             type, message_text, message_role, created_by, created_at, position
@@ -128,7 +121,7 @@ export async function POST(req: Request) {
       console.log(`[branches/POST] New branch will have depth: ${branchDepth}`);
 
       // Fetch ALL branches for the project to initialize color manager properly
-      const allBranchesResult = await query(
+      const allBranchesResult = await client.query(
         'SELECT id, parent_branch_id, depth, color FROM branches WHERE project_id = $1',
         [project_id]
       );
@@ -169,7 +162,7 @@ export async function POST(req: Request) {
       }
 
       // Create the new branch, referencing the branch point
-      const branchResult = await query(
+      const branchResult = await client.query(
         `INSERT INTO branches (
           id, project_id, parent_branch_id, branch_point_node_id,
           name, color, depth, created_by, created_at, metadata
@@ -178,7 +171,12 @@ export async function POST(req: Request) {
         [
           branchId, project_id, parent_branch_id, branchPointNodeId,
           branchName, color, branchDepth, created_by,
-          JSON.stringify({ layout: { direction } })
+          JSON.stringify({
+            layout: { direction },
+            ...(regenerated_from ? { regenerated_from } : {}),
+            ...(edited_from ? { edited_from } : {}),
+            ...(parsedGeneration?.success ? { generation: parsedGeneration.data } : {})
+          })
         ]
       );
 
@@ -193,7 +191,7 @@ export async function POST(req: Request) {
 
       // Create a branch-root node in the new branch
       const rootNodeId = uuidv4();
-      await query(
+      await client.query(
         `INSERT INTO timeline_nodes (
           id, project_id, branch_id, parent_id,
           type, message_text, message_role, created_by, created_at, position
@@ -206,7 +204,7 @@ export async function POST(req: Request) {
       console.log(`[branches/POST] Branch root node created: ${rootNodeId}`);
 
       // Normalize positions after insertion
-      await query(
+      await client.query(
         `UPDATE timeline_nodes 
         SET position = new_positions.new_pos
         FROM (
@@ -220,21 +218,12 @@ export async function POST(req: Request) {
       );
       console.log(`[branches/POST] Positions normalized for parent branch: ${parent_branch_id}`);
 
-      // Commit transaction
-      await query('COMMIT');
-      console.log(`[branches/POST] Transaction committed successfully`);
-
       // Return the created branch with its root node
       return NextResponse.json({
         ...newBranch,
         root_node_id: rootNodeId
       });
-    } catch (error) {
-      // Rollback on error
-      await query('ROLLBACK');
-      console.error(`[branches/POST] Error during transaction, rolled back:`, error);
-      throw error;
-    }
+    });
   } catch (error) {
     console.error('[branches/POST] Error creating branch:', error);
     return NextResponse.json(
@@ -0,0 +1,27 @@
+import { getGeneration } from '@/lib/generations';
+import { NextResponse } from 'next/server';
+
+/**
+ * API endpoint for stopping the generation of an assistant message
+ *
+ * The text generated so far is kept and the message is marked as stopped. Readers of the
+ * stream receive a `done` frame marked as stopped.
+ */
+export async function POST(
+	req: Request,
+	context: { params: { id: string; }; }
+) {
+	const { id } = await context.params;
+	if (!id) {
+		return NextResponse.json({ error: 'Missing message ID' }, { status: 400 });
+	}
+
+	const generation = getGeneration(id);
+	if (!generation || generation.isFinished) {
+		return NextResponse.json({ error: 'Message is not generating' }, { status: 404 });
+	}
+
+	generation.stop();
+
+	return NextResponse.json({ success: true });
+}
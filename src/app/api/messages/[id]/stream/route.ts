@@ -0,0 +1,72 @@
+import { query } from '@/lib/db';
+import { generationEventStream, getGeneration } from '@/lib/generations';
+import { encodeStreamEvent, StreamingTextResponse } from '@/lib/streaming';
+import { NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * API endpoint for reattaching to the stream of an assistant message
+ *
+ * Replays the frames generated so far and follows the live tail while the message is still
+ * generating. A message that is no longer generating on this server is sent as a single
+ * delta with its stored text.
+ */
+export async function GET(
+	req: Request,
+	context: { params: { id: string; }; }
+) {
+	const { id } = await context.params;
+	if (!id) {
+		return NextResponse.json({ error: 'Missing message ID' }, { status: 400 });
+	}
+
+	try {
+		const generation = getGeneration(id);
+		if (generation) {
+			return new StreamingTextResponse(generationEventStream(generation));
+		}
+
+		const result = await query(
+			`SELECT id, parent_id, branch_id, message_text, metadata
+			FROM timeline_nodes
+			WHERE id = $1 AND type = 'assistant-message'`,
+			[id]
+		);
+
+		if (result.rows.length === 0) {
+			return NextResponse.json({ error: 'Assistant message not found' }, { status: 404 });
+		}
+
+		const message = result.rows[0];
+		const frames = [
+			encodeStreamEvent({
+				type: 'start',
+				user_message_id: message.parent_id,
+				assistant_message_id: message.id,
+				branch_id: message.branch_id
+			}),
+			...(message.message_text ? [encodeStreamEvent({ type: 'delta', text: message.message_text })] : []),
+			encodeStreamEvent(message.metadata?.error
+				? { type: 'error', message: message.metadata.error }
+				: { type: 'done', stopped: Boolean(message.metadata?.stopped) })
+		];
+
+		const encoder = new TextEncoder();
+		return new StreamingTextResponse(new ReadableStream({
+			start(controller) {
+				controller.enqueue(encoder.encode(frames.join('')));
+				controller.close();
+			}
+		}));
+	} catch (error) {
+		console.error('Error reattaching to message stream:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to reattach to message stream',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
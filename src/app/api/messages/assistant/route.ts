@@ -1,13 +1,23 @@
-import { query } from '@/lib/db';
-import { AnthropicStream, StreamingTextResponse } from '@/lib/streaming';
-import Anthropic from '@anthropic-ai/sdk';
+import { fitToContextWindow } from '@/lib/contextWindow';
+import { getAncestorMessages } from '@/lib/conversationHistory';
+import { query, withTransaction } from '@/lib/db';
+import { resolveGenerationSettings } from '@/lib/generationSettings';
+import { generationEventStream, startGeneration } from '@/lib/generations';
+import { formatNotesForPrompt, getBranchNotesWithAncestors } from '@/lib/notes';
+import { LLMProviderFactory } from '@/lib/llm/llmProviderFactory';
+import { LLMMessage, LLMUsage } from '@/lib/llm/types';
+import { LLMEventStream, StreamingTextResponse } from '@/lib/streaming';
+import { MessageContextInfo } from '@/lib/types/database';
 import { NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
  * API endpoint for creating new messages and generating AI responses
  * 
- * This endpoint creates a user message and generates an AI response in a transaction
+ * This endpoint generates an AI response to a user message and stores it on the same branch.
+ * The model is called outside of any transaction so no connection is held while it runs.
+ * Streamed responses keep generating when the client disconnects; clients reattach through
+ * /api/messages/[id]/stream and stop them through /api/messages/[id]/stop.
  */
 export async function POST(req: Request) {
 	try {
@@ -18,14 +28,16 @@ export async function POST(req: Request) {
 			project_id,
 			parent_id,
 			messages,
-			stream = false
+			use_client_messages = false,
+			stream = false,
+			include_notes = true
 		} = body;
 
 		// Detailed validation logging
 		console.log('Validation check:');
 		console.log('- project_id:', project_id ? 'present' : 'missing', typeof project_id);
 		console.log('- parent_id:', parent_id ? 'present' : 'missing', typeof parent_id);
-		console.log('- messages:', messages ? `present (${Array.isArray(messages) ? 'is array' : 'not array'})` : 'missing', typeof messages);
+		console.log('- messages:', use_client_messages ? `client override (${Array.isArray(messages) ? 'is array' : 'not array'})` : 'rebuilt from history');
 
 		// Validate required fields with more specific error messages
 		if (!project_id) {
@@ -42,72 +54,85 @@ export async function POST(req: Request) {
 			);
 		}
 
-		if (!messages) {
-			return NextResponse.json(
-				{ error: 'Missing required field: messages' },
-				{ status: 400 }
+		// Client supplied messages are only used when explicitly requested (for debugging);
+		// otherwise the history is rebuilt from the database below
+		if (use_client_messages) {
+			if (!messages) {
+				return NextResponse.json(
+					{ error: 'Missing required field: messages (required when use_client_messages is set)' },
+					{ status: 400 }
+				);
+			}
+
+			if (!Array.isArray(messages)) {
+				return NextResponse.json(
+					{ error: 'Invalid format: messages must be an array' },
+					{ status: 400 }
+				);
+			}
+
+			// Validate message format for the LLM provider
+			const isValidMessageFormat = messages.every(msg =>
+				typeof msg === 'object' &&
+				msg !== null &&
+				('role' in msg) &&
+				('content' in msg) &&
+				(msg.role === 'user' || msg.role === 'assistant')
 			);
+
+			if (!isValidMessageFormat) {
+				console.log('Invalid message format. Messages:', JSON.stringify(messages));
+				return NextResponse.json(
+					{ error: 'Invalid message format: each message must have "role" (user or assistant) and "content" fields' },
+					{ status: 400 }
+				);
+			}
 		}
 
-		if (!Array.isArray(messages)) {
-			return NextResponse.json(
-				{ error: 'Invalid format: messages must be an array' },
-				{ status: 400 }
-			);
+		// Get the LLM provider configured for this project
+		const provider = await LLMProviderFactory.getProviderForProject(project_id);
+
+		// Rebuild the conversation from the ancestor path of the parent message, summarizing
+		// older messages when it does not fit the context window. This may call the model,
+		// so it happens before the transaction starts.
+		let conversation: LLMMessage[] = messages;
+		let contextInfo: MessageContextInfo | undefined;
+
+		if (!use_client_messages) {
+			const historyNodes = await getAncestorMessages(parent_id);
+			const fitted = await fitToContextWindow(historyNodes, provider);
+			conversation = fitted.messages;
+			contextInfo = fitted.context;
 		}
 
-		// Validate message format for Anthropic API
-		const isValidMessageFormat = messages.every(msg =>
-			typeof msg === 'object' &&
-			msg !== null &&
-			('role' in msg) &&
-			('content' in msg) &&
-			(msg.role === 'user' || msg.role === 'assistant')
+		// Fetch the parent message to get the branch_id
+		const parentMessageResult = await query(
+			'SELECT branch_id FROM timeline_nodes WHERE id = $1',
+			[parent_id]
 		);
 
-		if (!isValidMessageFormat) {
-			console.log('Invalid message format. Messages:', JSON.stringify(messages));
+		if (parentMessageResult.rows.length === 0) {
 			return NextResponse.json(
-				{ error: 'Invalid message format: each message must have "role" (user or assistant) and "content" fields' },
-				{ status: 400 }
+				{ error: 'Parent message not found' },
+				{ status: 404 }
 			);
 		}
 
-		// Start a transaction
-		await query('BEGIN');
-
-		try {
-			// Fetch the parent message to get the branch_id and position
-			const parentMessageResult = await query(
-				'SELECT branch_id, position FROM timeline_nodes WHERE id = $1',
-				[parent_id]
-			);
-
-			if (parentMessageResult.rows.length === 0) {
-				await query('ROLLBACK');
-				return NextResponse.json(
-					{ error: 'Parent message not found' },
-					{ status: 404 }
-				);
-			}
-
-			// Get branch_id from parent message
-			const effectiveBranchId = parentMessageResult.rows[0].branch_id;
+		// Get branch_id from parent message
+		const effectiveBranchId = parentMessageResult.rows[0].branch_id;
 
-			// Calculate next position for AI message
-			const nextPositionResult = await query(
-				'SELECT COALESCE(MAX(position), 0) + 1 AS next_position FROM timeline_nodes WHERE branch_id = $1',
-				[effectiveBranchId]
+		if (conversation.length === 0) {
+			return NextResponse.json(
+				{ error: 'No conversation history found for parent message' },
+				{ status: 400 }
 			);
-			const aiMessagePosition = nextPositionResult.rows[0].next_position;
+		}
 
-			// Initialize Anthropic client
-			const anthropic = new Anthropic({
-				apiKey: process.env.ANTHROPIC_API_KEY || '',
-			});
+		// Resolve model and sampling settings (project < ancestor branches < this branch)
+		const { settings: generation } = await resolveGenerationSettings(effectiveBranchId);
 
-			// Generate system prompt
-			const systemPrompt = `You are Claude, a helpful AI assistant integrated into Subway AI, a platform that visualizes conversations as a subway map with branches.
+		// Generate system prompt
+		const defaultPrompt = `You are Claude, a helpful AI assistant integrated into Subway AI, a platform that visualizes conversations as a subway map with branches.
 
 Each conversation can have multiple branches, allowing users to explore different directions for the same discussion. Your responses should be:
 
@@ -119,129 +144,160 @@ Each conversation can have multiple branches, allowing users to explore differen
 The current conversation branch is one path in the conversation "subway map." Users can create new branches from any of your responses to explore different directions.
 
 You should provide responses that are standalone and don't explicitly reference the subway/branch metaphor (as that would be confusing for users).`;
+		const basePrompt = generation.system_prompt || defaultPrompt;
 
-			// Generate AI message ID
-			const aiMessageId = uuidv4();
-
-			// If streaming is requested, create and return a streaming response
-			if (stream) {
-				// Create AI message placeholder
-				await query(`
-          INSERT INTO timeline_nodes (
-            id, project_id, branch_id, parent_id,
-            type, message_text, message_role, created_by, created_at, position
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), $9)
-        `, [
-					aiMessageId,
-					project_id,
-					effectiveBranchId,
-					parent_id,
-					'assistant-message',
-					'', // Empty initially, will be updated after streaming completes
-					'assistant',
-					'ai',
-					aiMessagePosition
-				]);
-
-				// Commit the transaction to save the AI placeholder
-				await query('COMMIT');
-
-				// Create the streaming response
-				const streamResponse = await anthropic.messages.create({
-					model: 'claude-3-5-haiku-20241022',
-					max_tokens: 1000,
-					messages: messages,
-					system: systemPrompt,
-					stream: true,
-				});
+		// Prepend the notes of this branch and its ancestors as lasting context
+		const notesPrompt = include_notes
+			? formatNotesForPrompt(await getBranchNotesWithAncestors(effectiveBranchId))
+			: '';
+		const systemPrompt = notesPrompt ? `${notesPrompt}\n\n${basePrompt}` : basePrompt;
 
-				// Transform the stream with metadata
-				const messageStream = AnthropicStream(streamResponse, {
-					onFinal: async (completion) => {
-						// Once streaming is complete, update the AI message in the database
-						try {
-							await query(
-								'UPDATE timeline_nodes SET message_text = $1 WHERE id = $2',
-								[completion, aiMessageId]
-							);
-						} catch (updateError) {
-							console.error('Failed to update AI message after streaming:', updateError);
-						}
-					}
-				});
+		const generationOptions = {
+			model: generation.model,
+			max_tokens: generation.max_tokens,
+			temperature: generation.temperature,
+			top_p: generation.top_p,
+			stop_sequences: generation.stop_sequences
+		};
+
+		// Recorded on the assistant message: which model answered and what context it saw
+		const model = generationOptions.model || provider.defaultModel;
+		const assistantMetadata = {
+			model,
+			...(contextInfo ? { context: contextInfo } : {})
+		};
+
+		// Generate AI message ID
+		const aiMessageId = uuidv4();
+
+		// Aborted to stop generating
+		const abortController = new AbortController();
+
+		// If streaming is requested, create and return a streaming response
+		if (stream) {
+			// Create AI message placeholder, empty until streaming completes
+			await insertAssistantMessage({
+				id: aiMessageId,
+				project_id,
+				branch_id: effectiveBranchId,
+				parent_id,
+				message_text: '',
+				model,
+				metadata: assistantMetadata
+			});
 
-				// Add response metadata
-				const responseMetadata = {
+			// Create the streaming response
+			const startedAt = Date.now();
+			const streamResponse = provider.stream({
+				messages: conversation,
+				system: systemPrompt,
+				...generationOptions,
+				signal: abortController.signal
+			});
+
+			// Transform the stream into event frames, starting with the message ids
+			const messageEvents = LLMEventStream(streamResponse, {
+				start: {
 					user_message_id: parent_id,
 					assistant_message_id: aiMessageId,
 					branch_id: effectiveBranchId
-				};
-
-				// Return the streaming response with metadata
-				return new StreamingTextResponse(messageStream, {
-					headers: {
-						'X-Message-Metadata': JSON.stringify(responseMetadata)
+				},
+				abortController,
+				onFinal: async (completion, usage, stopped, error) => {
+					// Once streaming is complete, update the AI message in the database.
+					// A stopped generation keeps the partial text and is marked as stopped;
+					// one that failed without text is marked with the error, so it is not
+					// taken for a generation still in progress.
+					const failure = !stopped && (error || (!completion ? 'The model returned no text' : null));
+					const finalMetadata = {
+						...(stopped ? { stopped: true } : {}),
+						...(failure ? { error: failure } : {})
+					};
+					try {
+						await query(`
+							UPDATE timeline_nodes
+							SET message_text = $1,
+								updated_at = NOW(),
+								input_tokens = $4,
+								output_tokens = $5,
+								latency_ms = $6,
+								metadata = COALESCE(metadata, '{}'::jsonb) || $3::jsonb
+							WHERE id = $2
+						`, [
+							completion,
+							aiMessageId,
+							JSON.stringify(finalMetadata),
+							usage?.input_tokens ?? null,
+							usage?.output_tokens ?? null,
+							Date.now() - startedAt
+						]);
+					} catch (updateError) {
+						console.error('Failed to update AI message after streaming:', updateError);
 					}
-				});
-			} else {
-				// For non-streaming requests, use the original approach
-				let aiResponse;
-				try {
-					const response = await anthropic.messages.create({
-						model: 'claude-3-5-haiku-20241022',
-						max_tokens: 1000,
-						messages: messages,
-						system: systemPrompt
-					});
-
-					// Extract text content from response
-					aiResponse = response.content[0]?.type === 'text'
-						? response.content[0].text
-						: "I'm sorry, I couldn't generate a proper response.";
-				} catch (error) {
-					console.error('Anthropic API error:', error);
-					aiResponse = "I'm sorry, I encountered an issue while processing your message. Please try again.";
 				}
+			});
 
-				// Create a new assistant-message node for the AI response
-				await query(`
-          INSERT INTO timeline_nodes (
-            id, project_id, branch_id, parent_id,
-            type, message_text, message_role, created_by, created_at, position
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), $9)
-        `, [
-					aiMessageId,
-					project_id,
-					effectiveBranchId,
-					parent_id,
-					'assistant-message',
-					aiResponse,
-					'assistant',
-					'ai',
-					aiMessagePosition
-				]);
-
-				// Commit the transaction
-				await query('COMMIT');
-
-				// Return the assistant message
-				return NextResponse.json({
-					assistant_message: {
-						id: aiMessageId,
-						type: 'assistant-message',
-						message_text: aiResponse,
-						message_role: 'assistant',
-						branch_id: effectiveBranchId,
-						project_id: project_id,
-						parent_id: parent_id,
-						position: aiMessagePosition
-					}
+			// Generate in the background so a reload does not lose the response
+			const activeGeneration = startGeneration(aiMessageId, messageEvents, abortController);
+
+			return new StreamingTextResponse(generationEventStream(activeGeneration));
+		} else {
+			// Nobody can reattach to a non-streaming request, so stop when the client leaves
+			req.signal.addEventListener('abort', () => abortController.abort(), { once: true });
+
+			// For non-streaming requests, use the original approach
+			let aiResponse;
+			let usage: LLMUsage | undefined;
+			const startedAt = Date.now();
+			try {
+				const response = await provider.complete({
+					messages: conversation,
+					system: systemPrompt,
+					...generationOptions,
+					signal: abortController.signal
 				});
+
+				// Extract text content from response
+				aiResponse = response.text || "I'm sorry, I couldn't generate a proper response.";
+				usage = response.usage;
+			} catch (error) {
+				// Nothing was generated and nobody is waiting for the answer
+				if (abortController.signal.aborted) {
+					return NextResponse.json(
+						{ error: 'Generation stopped' },
+						{ status: 499 }
+					);
+				}
+				console.error(`LLM provider (${provider.name}) error:`, error);
+				aiResponse = "I'm sorry, I encountered an issue while processing your message. Please try again.";
 			}
-		} catch (error) {
-			// Rollback on error
-			await query('ROLLBACK');
-			throw error;
+
+			// Create a new assistant-message node for the AI response
+			const aiMessagePosition = await insertAssistantMessage({
+				id: aiMessageId,
+				project_id,
+				branch_id: effectiveBranchId,
+				parent_id,
+				message_text: aiResponse,
+				model,
+				metadata: assistantMetadata,
+				usage,
+				latency_ms: Date.now() - startedAt
+			});
+
+			// Return the assistant message
+			return NextResponse.json({
+				assistant_message: {
+					id: aiMessageId,
+					type: 'assistant-message',
+					message_text: aiResponse,
+					message_role: 'assistant',
+					branch_id: effectiveBranchId,
+					project_id: project_id,
+					parent_id: parent_id,
+					position: aiMessagePosition
+				}
+			});
 		}
 	} catch (error) {
 		console.error('Error creating assistant message:', error);
@@ -253,4 +309,54 @@ You should provide responses that are standalone and don't explicitly reference
 			{ status: 500 }
 		);
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Insert an assistant message at the end of its branch
+ *
+ * The branch row is locked so concurrent messages on the same branch get distinct positions.
+ * @returns Position of the new message
+ */
+async function insertAssistantMessage(message: {
+	id: string;
+	project_id: string;
+	branch_id: string;
+	parent_id: string;
+	message_text: string;
+	model: string;
+	metadata: Record<string, unknown>;
+	usage?: LLMUsage;
+	latency_ms?: number;
+}): Promise<number> {
+	return withTransaction(async (client) => {
+		await client.query('SELECT id FROM branches WHERE id = $1 FOR UPDATE', [message.branch_id]);
+
+		const nextPositionResult = await client.query(
+			'SELECT COALESCE(MAX(position), 0) + 1 AS next_position FROM timeline_nodes WHERE branch_id = $1',
+			[message.branch_id]
+		);
+		const position = nextPositionResult.rows[0].next_position;
+
+		await client.query(`
+			INSERT INTO timeline_nodes (
+				id, project_id, branch_id, parent_id,
+				type, message_text, message_role, created_by, created_at, position, metadata,
+				model, input_tokens, output_tokens, latency_ms
+			) VALUES ($1, $2, $3, $4, 'assistant-message', $5, 'assistant', 'ai', NOW(), $6, $7, $8, $9, $10, $11)
+		`, [
+			message.id,
+			message.project_id,
+			message.branch_id,
+			message.parent_id,
+			message.message_text,
+			position,
+			JSON.stringify(message.metadata),
+			message.model,
+			message.usage?.input_tokens ?? null,
+			message.usage?.output_tokens ?? null,
+			message.latency_ms ?? null
+		]);
+
+		return position;
+	});
+}
@@ -1,4 +1,4 @@
-import { query } from '@/lib/db';
+import { withTransaction } from '@/lib/db';
 import { NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -25,18 +25,14 @@ export async function POST(req: Request) {
 			);
 		}
 
-		// Start a transaction
-		await query('BEGIN');
-
-		try {
-			// Check that parent node exists
-			const parentNodeCheck = await query(
-				'SELECT id, type FROM timeline_nodes WHERE id = $1',
+		return await withTransaction(async (client) => {
+			// Check that parent node exists, keeping it from being deleted until we commit
+			const parentNodeCheck = await client.query(
+				'SELECT id, type FROM timeline_nodes WHERE id = $1 FOR SHARE',
 				[parent_id]
 			);
 
 			if (parentNodeCheck.rows.length === 0) {
-				await query('ROLLBACK');
 				return NextResponse.json({ error: 'Parent node not found' }, { status: 404 });
 			}
 
@@ -55,7 +51,7 @@ export async function POST(req: Request) {
 
 					// Create a new main branch for this project
 					const mainBranchId = uuidv4();
-					await query(`
+					await client.query(`
             INSERT INTO branches (
               id, project_id, name, depth, color, created_by, created_at
             ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
@@ -73,7 +69,6 @@ export async function POST(req: Request) {
 					console.log(`Created main branch with ID: ${effectiveBranchId}`);
 				} else {
 					// If parent is not a root node but branch_id is still missing, return error
-					await query('ROLLBACK');
 					return NextResponse.json(
 						{ error: 'branch_id is required for non-root parent nodes' },
 						{ status: 400 }
@@ -81,8 +76,11 @@ export async function POST(req: Request) {
 				}
 			}
 
+			// Lock the branch so concurrent messages get distinct positions
+			await client.query('SELECT id FROM branches WHERE id = $1 FOR UPDATE', [effectiveBranchId]);
+
 			// Get the max position in the branch
-			const maxPosResult = await query(`
+			const maxPosResult = await client.query(`
         SELECT COALESCE(MAX(position), 0) + 1 AS next_position
         FROM timeline_nodes
         WHERE branch_id = $1
@@ -92,7 +90,7 @@ export async function POST(req: Request) {
 
 			// Create a new user-message node
 			const userMessageId = uuidv4();
-			await query(`
+			await client.query(`
         INSERT INTO timeline_nodes (
           id, project_id, branch_id, parent_id,
           type, message_text, message_role, created_by, created_at, position
@@ -109,11 +107,6 @@ export async function POST(req: Request) {
 				userMessagePosition
 			]);
 
-
-
-			// Commit the transaction
-			await query('COMMIT');
-
 			// Return both messages
 			return NextResponse.json({
 				user_message: {
@@ -128,12 +121,7 @@ export async function POST(req: Request) {
 				},
 
 			});
-
-		} catch (error) {
-			// Rollback on error
-			await query('ROLLBACK');
-			throw error;
-		}
+		});
 	} catch (error) {
 		console.error('Error creating message:', error);
 		return NextResponse.json(
@@ -1,4 +1,4 @@
-import { query } from '@/lib/db';
+import { query, withTransaction } from '@/lib/db';
 import { NextResponse } from 'next/server';
 
 /**
@@ -22,7 +22,7 @@ export async function GET(
         b.depth AS branch_depth,
         parent.id AS parent_id,
         parent.type AS parent_type,
-        parent.text AS parent_text
+        parent.message_text AS parent_text
       FROM timeline_nodes n
       LEFT JOIN branches b ON n.branch_id = b.id
       LEFT JOIN timeline_nodes parent ON n.parent_id = parent.id
@@ -58,7 +58,7 @@ export async function GET(
     // For message nodes, get any child nodes
     if (result.rows[0].type === 'user-message' || result.rows[0].type === 'assistant-message') {
       const childrenResult = await query(`
-        SELECT id, type, text, role, created_at
+        SELECT id, type, message_text, message_role, created_at
         FROM timeline_nodes
         WHERE parent_id = $1
         ORDER BY position ASC
@@ -102,39 +102,29 @@ export async function PUT(
     }
 
     const nodeType = currentNode.rows[0].type;
-    let queryText;
-    let queryParams;
-
-    // Different update logic based on node type
-    if (nodeType === 'user-message' || nodeType === 'assistant-message') {
-      // For message nodes, allow updating text
-      queryText = `
-        UPDATE timeline_nodes
-        SET text = $1, updated_at = NOW()
-        WHERE id = $2
-        RETURNING *
-      `;
-      queryParams = [data.text, id];
-    } else if (nodeType === 'branch-point') {
-      // For branch points, allow updating metadata
-      queryText = `
-        UPDATE timeline_nodes
-        SET metadata = $1, updated_at = NOW()
-        WHERE id = $2
-        RETURNING *
-      `;
-      queryParams = [data.metadata ? JSON.stringify(data.metadata) : '{}', id];
-    } else {
-      // For other node types, limited updates
-      queryText = `
-        UPDATE timeline_nodes
-        SET metadata = $1, updated_at = NOW()
-        WHERE id = $2
-        RETURNING *
-      `;
-      queryParams = [data.metadata ? JSON.stringify(data.metadata) : '{}', id];
+
+    // Message text is immutable: later answers were generated from it. Edits fork a new branch instead.
+    if (data.text !== undefined || data.message_text !== undefined) {
+      return NextResponse.json(
+        {
+          error: 'Message text cannot be edited in place',
+          details: nodeType === 'user-message'
+            ? 'Edit the message from the conversation view to fork a new branch with the edited text'
+            : 'Only metadata can be updated'
+        },
+        { status: 409 }
+      );
     }
 
+    // Only metadata can be updated for every node type
+    const queryText = `
+      UPDATE timeline_nodes
+      SET metadata = $1, updated_at = NOW()
+      WHERE id = $2
+      RETURNING *
+    `;
+    const queryParams = [data.metadata ? JSON.stringify(data.metadata) : '{}', id];
+
     const result = await query(queryText, queryParams);
 
     return NextResponse.json(result.rows[0]);
@@ -160,47 +150,43 @@ export async function DELETE(
   }
 
   try {
-    // Start a transaction
-    await query('BEGIN');
-    
-    try {
-      // Check if this node has child nodes
-      const childNodeCheck = await query(
-        `SELECT COUNT(*) AS child_count FROM timeline_nodes WHERE parent_id = $1`,
+    // Checks and delete run in one transaction so no child can be attached in between
+    return await withTransaction(async (client) => {
+      // Lock the node for the rest of the transaction
+      const nodeTypeCheck = await client.query(
+        `SELECT type FROM timeline_nodes WHERE id = $1 FOR UPDATE`,
         [id]
       );
       
-      // If it has children, don't allow deletion
-      if (parseInt(childNodeCheck.rows[0].child_count) > 0) {
-        await query('ROLLBACK');
+      if (nodeTypeCheck.rows.length === 0) {
         return NextResponse.json(
-          { error: 'Cannot delete node with child nodes' },
-          { status: 400 }
+          { error: 'Node not found' },
+          { status: 404 }
         );
       }
       
-      // For branch points, also check if they have associated branches
-      const nodeTypeCheck = await query(
-        `SELECT type FROM timeline_nodes WHERE id = $1`,
+      // Check if this node has child nodes
+      const childNodeCheck = await client.query(
+        `SELECT COUNT(*) AS child_count FROM timeline_nodes WHERE parent_id = $1`,
         [id]
       );
       
-      if (nodeTypeCheck.rows.length === 0) {
-        await query('ROLLBACK');
+      // If it has children, don't allow deletion
+      if (parseInt(childNodeCheck.rows[0].child_count) > 0) {
         return NextResponse.json(
-          { error: 'Node not found' },
-          { status: 404 }
+          { error: 'Cannot delete node with child nodes' },
+          { status: 400 }
         );
       }
       
+      // For branch points, also check if they have associated branches
       if (nodeTypeCheck.rows[0].type === 'branch-point') {
-        const branchCheck = await query(
+        const branchCheck = await client.query(
           `SELECT COUNT(*) AS branch_count FROM branches WHERE branch_point_node_id = $1`,
           [id]
         );
         
         if (parseInt(branchCheck.rows[0].branch_count) > 0) {
-          await query('ROLLBACK');
           return NextResponse.json(
             { error: 'Cannot delete a branch point that has associated branches' },
             { status: 400 }
@@ -209,31 +195,16 @@ export async function DELETE(
       }
       
       // Delete the node
-      const result = await query(
-        `DELETE FROM timeline_nodes WHERE id = $1 RETURNING id, type, text, branch_id, project_id`,
+      const result = await client.query(
+        `DELETE FROM timeline_nodes WHERE id = $1 RETURNING id, type, message_text, branch_id, project_id`,
         [id]
       );
 
-      if (result.rows.length === 0) {
-        await query('ROLLBACK');
-        return NextResponse.json(
-          { error: 'Node not found' },
-          { status: 404 }
-        );
-      }
-      
-      // Commit the transaction
-      await query('COMMIT');
-
       return NextResponse.json({ 
         deleted: true,
         node: result.rows[0]
       });
-    } catch (error) {
-      // Rollback on error
-      await query('ROLLBACK');
-      throw error;
-    }
+    });
   } catch (error) {
     console.error('Database error:', error);
     return NextResponse.json(
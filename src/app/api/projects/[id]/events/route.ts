@@ -0,0 +1,110 @@
+import { query } from '@/lib/db';
+import { subscribeToProjectChanges } from '@/lib/events';
+import { ProjectChangeEvent } from '@/lib/types/database';
+import { NextResponse } from 'next/server';
+
+// Keep-alive comment interval, below common proxy idle timeouts
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * API endpoint streaming node and branch changes of a project as server-sent events
+ *
+ * Every change is sent as a `change` event whose data is a ProjectChangeEvent.
+ */
+export async function GET(
+	req: Request,
+	context: { params: { id: string; }; }
+) {
+	const { id: projectId } = await context.params;
+	if (!projectId) {
+		return NextResponse.json({ error: 'Missing project ID' }, { status: 400 });
+	}
+
+	try {
+		const projectCheck = await query('SELECT id FROM projects WHERE id = $1', [projectId]);
+		if (projectCheck.rows.length === 0) {
+			return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const encoder = new TextEncoder();
+		let cleanup = () => {};
+
+		const stream = new ReadableStream({
+			async start(controller) {
+				let closed = false;
+				let unsubscribe = () => {};
+
+				const close = () => {
+					if (closed) return;
+					closed = true;
+					clearInterval(heartbeat);
+					unsubscribe();
+					try {
+						controller.close();
+					} catch {
+						// Already closed by the runtime
+					}
+				};
+
+				const send = (text: string) => {
+					if (closed) return;
+					try {
+						controller.enqueue(encoder.encode(text));
+					} catch {
+						// The client went away between the check and the write
+						close();
+					}
+				};
+
+				// Comments keep idle proxies from closing the connection
+				const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+				cleanup = close;
+				req.signal.addEventListener('abort', close);
+
+				try {
+					unsubscribe = await subscribeToProjectChanges(projectId, (event: ProjectChangeEvent) => {
+						send(`event: change\ndata: ${JSON.stringify(event)}\n\n`);
+					});
+				} catch (error) {
+					console.error('[projects/events] Error subscribing to project changes:', error);
+					closed = true;
+					clearInterval(heartbeat);
+					controller.error(error);
+					return;
+				}
+
+				// The client may have disconnected while we were subscribing
+				if (closed) {
+					unsubscribe();
+					return;
+				}
+
+				// Tell the client the subscription is live
+				send(`event: ready\ndata: {}\n\n`);
+			},
+			cancel() {
+				cleanup();
+			}
+		});
+
+		return new Response(stream, {
+			headers: {
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache, no-transform',
+				'Connection': 'keep-alive'
+			}
+		});
+	} catch (error) {
+		console.error('[projects/events] Error opening event stream:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to open event stream',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
@@ -0,0 +1,87 @@
+import {
+	EXPORT_FORMATS,
+	ExportFormat,
+	loadProjectExport,
+	toFileName,
+	toHtmlExport,
+	toJsonExport,
+	toMarkdownExport
+} from '@/lib/export';
+import { NextResponse } from 'next/server';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+	json: 'application/json; charset=utf-8',
+	markdown: 'text/markdown; charset=utf-8',
+	html: 'text/html; charset=utf-8'
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+	json: 'json',
+	markdown: 'md',
+	html: 'html'
+};
+
+/**
+ * API endpoint for exporting a project as a JSON dump, a Markdown transcript or an HTML page
+ *
+ * Query parameters: format (json, markdown or html; default markdown) and an optional
+ * branch_id limiting the export to that branch, its descendants and the path leading to it.
+ */
+export async function GET(
+	req: Request,
+	context: { params: { id: string; }; }
+) {
+	const { id } = await context.params;
+	if (!id) {
+		return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+	}
+
+	const { searchParams } = new URL(req.url);
+	const format = (searchParams.get('format') || 'markdown') as ExportFormat;
+	const branchId = searchParams.get('branch_id');
+
+	if (!EXPORT_FORMATS.includes(format)) {
+		return NextResponse.json(
+			{ error: `Invalid format: expected one of ${EXPORT_FORMATS.join(', ')}` },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const data = await loadProjectExport(id, branchId);
+		if (!data) {
+			return NextResponse.json(
+				{ error: branchId ? 'Project or branch not found' : 'Project not found' },
+				{ status: 404 }
+			);
+		}
+
+		const body = format === 'json'
+			? toJsonExport(data)
+			: format === 'html'
+				? toHtmlExport(data)
+				: toMarkdownExport(data);
+
+		const scopeBranch = branchId ? data.branches.find(branch => branch.id === branchId) : null;
+		const fileName = [
+			toFileName(data.project.name),
+			scopeBranch ? toFileName(scopeBranch.name || 'branch') : null
+		].filter(Boolean).join('-');
+
+		return new Response(body, {
+			headers: {
+				'Content-Type': CONTENT_TYPES[format],
+				'Content-Disposition': `attachment; filename="${fileName}.${FILE_EXTENSIONS[format]}"`
+			}
+		});
+	} catch (error) {
+		console.error('Error exporting project:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to export project',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
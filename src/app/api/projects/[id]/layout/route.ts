@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
 import LayoutServiceFactory from '@/lib/layout/layoutServiceFactory';
@@ -10,16 +11,22 @@ const paramSchema = z.object({
 
 // Query params validation schema
 const querySchema = z.object({
-  layoutType: z.enum(['slot', 'tree']).optional(),
+  layoutType: z.enum(['slot', 'tree', 'elk']).optional(),
+  mode: z.enum(['full', 'incremental']).optional(),
 });
 
 /**
  * POST /api/projects/[id]/layout
  * 
- * Recalculates and updates the layout positions for all branches in a project
+ * Recalculates the layout positions for all branches in a project and stores them in
+ * the layout cache
  * Uses the selected layout service to apply tree-aware layout algorithms with better
  * collision avoidance.
  * 
+ * With mode=incremental, stored positions are kept: only new branches, and branches
+ * whose direction hint is no longer met, are placed, and lines they collide with are
+ * shifted aside. The response lists the branches that moved.
+ * 
  * @param req NextRequest with project ID in params
  * @returns Updated layout information
  */
@@ -34,8 +41,9 @@ export async function POST(
     // Parse query params
     const url = new URL(request.url);
     const layoutType = url.searchParams.get('layoutType') || 'tree';
-    const { layoutType: validatedLayoutType } = querySchema.parse({ 
-      layoutType: layoutType as 'slot' | 'tree' 
+    const { layoutType: validatedLayoutType, mode } = querySchema.parse({ 
+      layoutType: layoutType as 'slot' | 'tree' | 'elk',
+      mode: url.searchParams.get('mode') || 'full'
     });
     
     // Check if project exists
@@ -51,6 +59,17 @@ export async function POST(
       );
     }
     
+    if (mode === 'incremental') {
+      const moves = await LayoutServiceFactory
+        .getIncrementalLayoutService(validatedLayoutType)
+        .updateBranchPositions(id);
+      
+      return NextResponse.json(
+        { message: 'Layout updated successfully', moves },
+        { status: 200 }
+      );
+    }
+    
     // Get appropriate layout service based on query parameter
     const layoutService = LayoutServiceFactory.getLayoutService(validatedLayoutType);
     await layoutService.updateBranchPositions(id);
@@ -72,7 +91,12 @@ export async function POST(
 /**
  * GET /api/projects/[id]/layout
  * 
- * Calculate and return the layout for a project's branches
+ * Return the layout for a project's branches, and the position of every station, branch
+ * point and branch root on their lines (nodeLayouts)
+ * The layout is served from the layout cache. When the branches or nodes changed since it
+ * was stored, it is recomputed incrementally around the stored positions and cached again.
+ * Responses carry an ETag, so unchanged layouts are answered with 304 Not Modified.
+ * With mode=full, a full recalculation is returned instead, without storing anything.
  */
 export async function GET(
   request: NextRequest,
@@ -80,37 +104,57 @@ export async function GET(
 ) {
   try {
     // Validate project ID parameter
-    const { id } = paramSchema.parse(params);
+    const { id } = paramSchema.parse(await params);
     
     // Parse query params
     const url = new URL(request.url);
     const layoutType = url.searchParams.get('layoutType') || 'tree';
-    const { layoutType: validatedLayoutType } = querySchema.parse({ 
-      layoutType: layoutType as 'slot' | 'tree' 
+    const { layoutType: validatedLayoutType, mode } = querySchema.parse({ 
+      layoutType: layoutType as 'slot' | 'tree' | 'elk',
+      mode: url.searchParams.get('mode') || 'incremental'
     });
     
-    // Fetch project branches
-    const branchesResult = await query(
-      'SELECT * FROM branches WHERE project_id = $1',
-      [id]
-    );
+    if (mode === 'full') {
+      // Fetch project branches
+      const branchesResult = await query(
+        'SELECT * FROM branches WHERE project_id = $1',
+        [id]
+      );
+      
+      // Fetch project timeline nodes
+      const nodesResult = await query(
+        'SELECT * FROM timeline_nodes WHERE project_id = $1',
+        [id]
+      );
+      
+      const fullLayout = await LayoutServiceFactory
+        .getLayoutService(validatedLayoutType)
+        .calculate(branchesResult.rows, nodesResult.rows);
+      
+      return NextResponse.json(fullLayout, {
+        headers: { 'Cache-Control': 'no-store' }
+      });
+    }
     
-    // Fetch project timeline nodes
-    const nodesResult = await query(
-      'SELECT * FROM timeline_nodes WHERE project_id = $1',
-      [id]
-    );
+    const layoutResult = await LayoutServiceFactory
+      .getIncrementalLayoutService(validatedLayoutType)
+      .getLayout(id);
     
-    // Get appropriate layout service based on query parameter
-    const layoutService = LayoutServiceFactory.getLayoutService(validatedLayoutType);
+    const body = JSON.stringify(layoutResult);
+    const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+    const headers = {
+      ETag: etag,
+      // Browsers keep the layout but revalidate it on every request
+      'Cache-Control': 'no-cache'
+    };
     
-    // Calculate layout
-    const layoutResult = await layoutService.calculate(
-      branchesResult.rows,
-      nodesResult.rows
-    );
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
     
-    return NextResponse.json(layoutResult);
+    return new NextResponse(body, {
+      headers: { ...headers, 'Content-Type': 'application/json' }
+    });
   } catch (error) {
     console.error('Error calculating project layout:', error);
     return NextResponse.json(
@@ -118,4 +162,4 @@ export async function GET(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
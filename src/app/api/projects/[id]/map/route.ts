@@ -0,0 +1,105 @@
+import { query } from '@/lib/db';
+import { toFileName } from '@/lib/export';
+import LayoutServiceFactory, { LayoutServiceType } from '@/lib/layout/layoutServiceFactory';
+import {
+	renderSubwayMapPng,
+	renderSubwayMapSvg,
+	SUBWAY_MAP_FORMATS,
+	SubwayMapFormat
+} from '@/lib/layout/subwayMapRenderer';
+import { NextResponse } from 'next/server';
+
+const LAYOUT_TYPES: LayoutServiceType[] = ['slot', 'tree', 'elk'];
+
+// Largest PNG density multiplier, keeps big maps within memory
+const MAX_PNG_SCALE = 4;
+
+/**
+ * API endpoint for downloading a project's subway map as an image
+ *
+ * The map is drawn from the same layout /api/projects/[id]/layout serves. Query
+ * parameters: format (svg or png; default svg), layoutType (slot, tree or elk; default tree)
+ * and scale for the PNG pixel density (default 2).
+ */
+export async function GET(
+	req: Request,
+	context: { params: { id: string; }; }
+) {
+	const { id } = await context.params;
+	if (!id) {
+		return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+	}
+
+	const { searchParams } = new URL(req.url);
+	const format = (searchParams.get('format') || 'svg') as SubwayMapFormat;
+	const layoutType = (searchParams.get('layoutType') || 'tree') as LayoutServiceType;
+	const scale = Number(searchParams.get('scale') || 2);
+
+	if (!SUBWAY_MAP_FORMATS.includes(format)) {
+		return NextResponse.json(
+			{ error: `Invalid format: expected one of ${SUBWAY_MAP_FORMATS.join(', ')}` },
+			{ status: 400 }
+		);
+	}
+	if (!LAYOUT_TYPES.includes(layoutType)) {
+		return NextResponse.json(
+			{ error: `Invalid layoutType: expected one of ${LAYOUT_TYPES.join(', ')}` },
+			{ status: 400 }
+		);
+	}
+	if (!Number.isFinite(scale) || scale <= 0 || scale > MAX_PNG_SCALE) {
+		return NextResponse.json(
+			{ error: `Invalid scale: expected a number above 0 and at most ${MAX_PNG_SCALE}` },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const projectResult = await query('SELECT name FROM projects WHERE id = $1', [id]);
+		if (projectResult.rows.length === 0) {
+			return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const branchesResult = await query('SELECT * FROM branches WHERE project_id = $1', [id]);
+		const nodesResult = await query('SELECT * FROM timeline_nodes WHERE project_id = $1', [id]);
+
+		const layout = await LayoutServiceFactory
+			.getIncrementalLayoutService(layoutType)
+			.getLayout(id);
+
+		const projectName: string = projectResult.rows[0].name;
+		const svg = renderSubwayMapSvg({
+			projectName,
+			branches: branchesResult.rows,
+			nodes: nodesResult.rows,
+			layout
+		});
+		const fileName = `${toFileName(projectName)}-map.${format}`;
+
+		if (format === 'png') {
+			const png = await renderSubwayMapPng(svg, scale);
+			return new Response(new Uint8Array(png), {
+				headers: {
+					'Content-Type': 'image/png',
+					'Content-Disposition': `attachment; filename="${fileName}"`
+				}
+			});
+		}
+
+		return new Response(svg, {
+			headers: {
+				'Content-Type': 'image/svg+xml; charset=utf-8',
+				'Content-Disposition': `attachment; filename="${fileName}"`
+			}
+		});
+	} catch (error) {
+		console.error('Error rendering subway map:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to render subway map',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
@@ -1,4 +1,5 @@
 import { query } from '@/lib/db';
+import { getProjectUsage } from '@/lib/usage';
 import { NextResponse } from 'next/server';
 
 /**
@@ -40,9 +41,13 @@ export async function GET(
 			ORDER BY b.depth ASC, b.created_at ASC
 		`, [id]);
 
+		// Token usage and estimated cost, in total and per branch
+		const usage = await getProjectUsage(id);
+
 		return NextResponse.json({
 			...result.rows[0],
-			branches: branchesResult.rows
+			branches: branchesResult.rows,
+			usage
 		});
 	} catch (error) {
 		console.error('Database error:', error);
@@ -117,35 +122,23 @@ export async function DELETE(
 	}
 
 	try {
-		// Start a transaction
-		await query('BEGIN');
-		
-		try {
-			// Delete will cascade to timeline_nodes and branches due to foreign key constraints
-			const result = await query(
-				`DELETE FROM projects WHERE id = $1 RETURNING id, name`,
-				[id]
-			);
-
-			if (result.rows.length === 0) {
-				return NextResponse.json(
-					{ error: 'Project not found' },
-					{ status: 404 }
-				);
-			}
-			
-			// Commit the transaction
-			await query('COMMIT');
+		// Delete will cascade to timeline_nodes and branches due to foreign key constraints
+		const result = await query(
+			`DELETE FROM projects WHERE id = $1 RETURNING id, name`,
+			[id]
+		);
 
-			return NextResponse.json({ 
-				deleted: true,
-				project: result.rows[0]
-			});
-		} catch (error) {
-			// Rollback on error
-			await query('ROLLBACK');
-			throw error;
+		if (result.rows.length === 0) {
+			return NextResponse.json(
+				{ error: 'Project not found' },
+				{ status: 404 }
+			);
 		}
+
+		return NextResponse.json({ 
+			deleted: true,
+			project: result.rows[0]
+		});
 	} catch (error) {
 		console.error('Database error:', error);
 		return NextResponse.json(
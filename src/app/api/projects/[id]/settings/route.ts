@@ -0,0 +1,98 @@
+import { query } from '@/lib/db';
+import { generationSettingsSchema } from '@/lib/schemas/forms';
+import { NextResponse } from 'next/server';
+
+/**
+ * API endpoint for reading and updating a project's generation settings
+ *
+ * Settings are stored under `projects.settings.generation` and act as the defaults
+ * for every branch in the project.
+ */
+export async function GET(
+	req: Request,
+	context: { params: { id: string; }; }
+) {
+	const { id } = await context.params;
+	if (!id) {
+		return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+	}
+
+	try {
+		const result = await query(
+			'SELECT settings FROM projects WHERE id = $1',
+			[id]
+		);
+
+		if (result.rows.length === 0) {
+			return NextResponse.json(
+				{ error: 'Project not found' },
+				{ status: 404 }
+			);
+		}
+
+		return NextResponse.json({
+			generation: result.rows[0].settings?.generation || {}
+		});
+	} catch (error) {
+		console.error('Database error:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to fetch project settings',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
+
+export async function PUT(
+	req: Request,
+	context: { params: { id: string; }; }
+) {
+	const { id } = await context.params;
+	if (!id) {
+		return NextResponse.json({ error: 'Missing ID' }, { status: 400 });
+	}
+
+	try {
+		const body = await req.json();
+		const parsed = generationSettingsSchema.safeParse(body.generation ?? {});
+
+		if (!parsed.success) {
+			return NextResponse.json(
+				{ error: 'Invalid generation settings', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		// Replace the generation settings while keeping the rest of the settings object
+		const result = await query(
+			`UPDATE projects
+			 SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('generation', $1::jsonb),
+				 updated_at = NOW()
+			 WHERE id = $2
+			 RETURNING settings`,
+			[JSON.stringify(parsed.data), id]
+		);
+
+		if (result.rows.length === 0) {
+			return NextResponse.json(
+				{ error: 'Project not found' },
+				{ status: 404 }
+			);
+		}
+
+		return NextResponse.json({
+			generation: result.rows[0].settings.generation
+		});
+	} catch (error) {
+		console.error('Database error:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to update project settings',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
@@ -0,0 +1,60 @@
+import { importProjects } from '@/lib/import';
+import { NextResponse } from 'next/server';
+
+/**
+ * API endpoint for importing projects from JSON exports
+ *
+ * Accepts our own JSON export, ChatGPT's conversations.json or a Claude export, either
+ * as a multipart upload in the "file" field or as the JSON request body. Every
+ * conversation in the file becomes a project.
+ */
+export async function POST(req: Request) {
+	let data: unknown;
+	let userId = 'user123'; // In a real app, this would come from authentication
+
+	try {
+		const contentType = req.headers.get('content-type') || '';
+
+		if (contentType.includes('multipart/form-data')) {
+			const formData = await req.formData();
+			const file = formData.get('file');
+			if (!file || typeof file === 'string') {
+				return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+			}
+			const createdBy = formData.get('created_by');
+			if (typeof createdBy === 'string' && createdBy) userId = createdBy;
+			data = JSON.parse(await file.text());
+		} else {
+			data = await req.json();
+		}
+	} catch (error) {
+		return NextResponse.json(
+			{
+				error: 'File is not valid JSON',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const result = await importProjects(data, userId);
+		if (!result) {
+			return NextResponse.json(
+				{ error: 'Unrecognized format: expected a Subway AI, ChatGPT or Claude JSON export' },
+				{ status: 400 }
+			);
+		}
+
+		return NextResponse.json(result, { status: result.imported.length > 0 ? 201 : 422 });
+	} catch (error) {
+		console.error('Error importing projects:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to import projects',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
@@ -1,4 +1,4 @@
-import { query } from '@/lib/db';
+import { withTransaction } from '@/lib/db';
 import { NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -7,15 +7,13 @@ export async function POST(req: Request) {
 	const userId = created_by || 'user123'; // In a real app, this would come from authentication
 	
 	try {
-		// Create a transaction
-		await query('BEGIN');
-		
-		try {
+		// Create the project with its main branch, root node and welcome message atomically
+		const result = await withTransaction(async (client) => {
 			// Create project
 			const projectId = uuidv4();
 			const timestamp = new Date().toISOString();
 			
-			const projectResult = await query(
+			const projectResult = await client.query(
 				`INSERT INTO projects (id, name, description, created_at, updated_at, created_by)
 				 VALUES ($1, $2, $3, $4, $5, $6)
 				 RETURNING *`,
@@ -29,7 +27,7 @@ export async function POST(req: Request) {
 			// Create main branch
 			const mainBranchId = uuidv4();
 			
-			await query(
+			await client.query(
 				`INSERT INTO branches (id, project_id, name, color, depth, is_active, created_by, created_at)
 				 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
 				[mainBranchId, projectId, 'Main Line', '#3b82f6', 0, true, userId, timestamp]
@@ -38,7 +36,7 @@ export async function POST(req: Request) {
 			// Create root node in main branch
 			const rootNodeId = uuidv4();
 			
-			await query(
+			await client.query(
 				`INSERT INTO timeline_nodes 
 				 (id, project_id, branch_id, type, status, position, created_by, created_at)
 				 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
@@ -57,7 +55,7 @@ export async function POST(req: Request) {
 			// Create initial welcome message
 			const welcomeNodeId = uuidv4();
 			
-			await query(
+			await client.query(
 				`INSERT INTO timeline_nodes 
 				 (id, project_id, branch_id, parent_id, type, status,
 				  message_text, message_role, position, created_by, created_at)
@@ -77,24 +75,19 @@ export async function POST(req: Request) {
 				]
 			);
 			
-			// Commit transaction
-			await query('COMMIT');
-			
 			// Map name to title in the response
 			const project = projectResult.rows[0];
 			project.title = project.name;
 			
-			return NextResponse.json({
+			return {
 				...project,
 				mainBranchId,
 				rootNodeId,
 				welcomeNodeId
-			});
-		} catch (error) {
-			// Rollback on error
-			await query('ROLLBACK');
-			throw error;
-		}
+			};
+		});
+		
+		return NextResponse.json(result);
 	} catch (error) {
 		console.error('Database error:', error);
 		return NextResponse.json(
@@ -1,4 +1,4 @@
-import { query } from '@/lib/db';
+import { query, withTransaction } from '@/lib/db';
 import { NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -33,15 +33,13 @@ export async function POST(req: Request) {
 		const { name, description, created_by } = await req.json();
 		const userId = created_by || 'user123'; // In a real app, this would come from authentication
 		
-		// Start a transaction
-		await query('BEGIN');
-		
-		try {
+		// Create the project with its main branch and root node atomically
+		const project = await withTransaction(async (client) => {
 			// Create project
 			const projectId = uuidv4();
 			const timestamp = new Date().toISOString();
 			
-			const projectResult = await query(
+			const projectResult = await client.query(
 				`INSERT INTO projects (id, name, description, created_at, updated_at, created_by)
 				 VALUES ($1, $2, $3, $4, $5, $6)
 				 RETURNING *`,
@@ -55,7 +53,7 @@ export async function POST(req: Request) {
 			// Create main branch
 			const mainBranchId = uuidv4();
 			
-			await query(
+			await client.query(
 				`INSERT INTO branches (id, project_id, name, color, depth, is_active, created_by, created_at)
 				 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
 				[mainBranchId, projectId, 'Main Line', '#3b82f6', 0, true, userId, timestamp]
@@ -64,7 +62,7 @@ export async function POST(req: Request) {
 			// Create root node in main branch
 			const rootNodeId = uuidv4();
 			
-			await query(
+			await client.query(
 				`INSERT INTO timeline_nodes 
 				 (id, project_id, branch_id, type, status, position, created_by, created_at)
 				 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
@@ -80,19 +78,14 @@ export async function POST(req: Request) {
 				]
 			);
 			
-			// Commit transaction
-			await query('COMMIT');
-			
-			return NextResponse.json({
+			return {
 				...projectResult.rows[0],
 				mainBranchId,
 				rootNodeId
-			});
-		} catch (error) {
-			// Rollback on error
-			await query('ROLLBACK');
-			throw error;
-		}
+			};
+		});
+		
+		return NextResponse.json(project);
 	} catch (error) {
 		console.error('Database error:', error);
 		return NextResponse.json(
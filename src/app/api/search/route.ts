@@ -0,0 +1,108 @@
+import { query } from '@/lib/db';
+import { SearchResult, SearchSnippetPart } from '@/lib/types/database';
+import { NextResponse } from 'next/server';
+
+// Control characters marking matches in snippets; they cannot occur in typed text
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+/**
+ * Split a snippet returned by ts_headline into plain and highlighted parts
+ */
+function toSnippetParts(headline: string): SearchSnippetPart[] {
+	const parts: SearchSnippetPart[] = [];
+	const pattern = new RegExp(`${MATCH_START}([^${MATCH_END}]*)${MATCH_END}`, 'g');
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(headline)) !== null) {
+		if (match.index > lastIndex) {
+			parts.push({ text: headline.slice(lastIndex, match.index), highlighted: false });
+		}
+		parts.push({ text: match[1], highlighted: true });
+		lastIndex = pattern.lastIndex;
+	}
+
+	if (lastIndex < headline.length) {
+		parts.push({ text: headline.slice(lastIndex), highlighted: false });
+	}
+
+	return parts;
+}
+
+/**
+ * API endpoint for full-text search over the messages of a project
+ *
+ * Query parameters: project_id, q (web search syntax: words, "phrases", -excluded, or),
+ * and an optional limit. Results are ordered by relevance, then by recency.
+ */
+export async function GET(req: Request) {
+	const { searchParams } = new URL(req.url);
+	const projectId = searchParams.get('project_id');
+	const searchText = (searchParams.get('q') || '').trim();
+	const limit = Math.min(
+		Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1),
+		MAX_LIMIT
+	);
+
+	if (!projectId) {
+		return NextResponse.json({ error: 'Missing required parameter: project_id' }, { status: 400 });
+	}
+
+	if (!searchText) {
+		return NextResponse.json({ results: [] });
+	}
+
+	try {
+		const result = await query(`
+			SELECT n.id AS node_id,
+				n.branch_id,
+				n.type,
+				n.created_at,
+				b.name AS branch_name,
+				b.color AS branch_color,
+				b.depth AS branch_depth,
+				ts_headline('english', n.message_text, search_query, $4) AS headline,
+				ts_rank(to_tsvector('english', COALESCE(n.message_text, '')), search_query) AS rank
+			FROM timeline_nodes n
+			JOIN branches b ON n.branch_id = b.id,
+				websearch_to_tsquery('english', $2) AS search_query
+			WHERE n.project_id = $1
+				AND n.type IN ('user-message', 'assistant-message')
+				AND to_tsvector('english', COALESCE(n.message_text, '')) @@ search_query
+			ORDER BY rank DESC, n.created_at DESC
+			LIMIT $3
+		`, [
+			projectId,
+			searchText,
+			limit,
+			`StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`
+		]);
+
+		const results: SearchResult[] = result.rows.map(row => ({
+			node_id: row.node_id,
+			branch_id: row.branch_id,
+			branch_name: row.branch_name,
+			branch_color: row.branch_color,
+			branch_depth: row.branch_depth,
+			type: row.type,
+			created_at: row.created_at,
+			snippet: toSnippetParts(row.headline || ''),
+			rank: Number(row.rank)
+		}));
+
+		return NextResponse.json({ results });
+	} catch (error) {
+		console.error('Error searching messages:', error);
+		return NextResponse.json(
+			{
+				error: 'Failed to search messages',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			},
+			{ status: 500 }
+		);
+	}
+}
@@ -3,8 +3,12 @@
 
 import { ChatControls } from "@/components/chat/chatControls";
 import { ConversationView } from "@/components/chat/conversationView";
+import { GenerationSettingsForm } from "@/components/forms/generationSettingsForm";
+import { ImportDialog } from "@/components/importDialog";
 import { Minimap } from "@/components/minimap";
 import { ProjectDialog } from "@/components/projectDialog";
+import { SearchPalette } from "@/components/searchPalette";
+import { UsagePanel } from "@/components/usagePanel";
 import {
 	AlertDialog,
 	AlertDialogAction,
@@ -28,6 +32,8 @@ import {
 	DropdownMenu,
 	DropdownMenuContent,
 	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
@@ -38,22 +44,35 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { H1 } from "@/components/ui/typography";
 import { useConversation } from "@/lib/contexts/ConversationContext";
 import { useProject } from "@/lib/contexts/ProjectContext";
+import type { ImportResult } from "@/lib/import/types";
 import { cn } from "@/lib/utils";
 import {
 	ArrowLeftCircle,
 	ArrowRightCircle,
 	ChevronDown,
+	CircleDollarSign,
+	Download,
 	GitBranch,
 	Map,
 	Menu,
 	PlusIcon,
+	SlidersHorizontal,
 	Train,
-	Trash2
+	Trash2,
+	Upload
 } from "lucide-react";
 import { useEffect, useState } from "react";
 
+// Formats offered in the export menu
+const EXPORT_OPTIONS = [
+	{ format: "markdown", label: "Markdown transcript" },
+	{ format: "html", label: "HTML page" },
+	{ format: "json", label: "JSON (lossless)" }
+];
+
 export default function Home() {
 	const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+	const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
 	const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 	const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 	const [branchDialogOpen, setBranchDialogOpen] = useState(false);
@@ -68,6 +87,7 @@ export default function Home() {
 		selectedProject,
 		selectedProjectId,
 		loading: projectLoading,
+		fetchProjects,
 		selectProject,
 		createProject,
 		deleteProject
@@ -99,6 +119,12 @@ export default function Home() {
 		}
 	};
 
+	const handleProjectsImported = async (result: ImportResult) => {
+		await fetchProjects();
+		selectProject(result.imported[0].project_id);
+		switchBranch(null);
+	};
+
 	const handleDeleteProject = async () => {
 		if (!selectedProjectId) return;
 
@@ -289,6 +315,9 @@ export default function Home() {
 				</div>
 
 				<div className="flex gap-2 items-center">
+					{/* Search across all messages of the project */}
+					{selectedProjectId && <SearchPalette />}
+
 					{/* Project selector dropdown */}
 					{projects.length > 0 && (
 						<DropdownMenu>
@@ -337,6 +366,72 @@ export default function Home() {
 							New Project
 						</Button>
 
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => setIsImportDialogOpen(true)}
+							className="flex items-center"
+							title="Import projects"
+						>
+							<Upload className="h-4 w-4 mr-2" />
+							Import
+						</Button>
+
+						{selectedProjectId && (
+							<GenerationSettingsForm
+								scope="project"
+								targetId={selectedProjectId}
+								trigger={
+									<Button variant="outline" size="sm" title="Model settings">
+										<SlidersHorizontal className="h-4 w-4" />
+									</Button>
+								}
+							/>
+						)}
+
+						{selectedProjectId && (
+							<DropdownMenu>
+								<DropdownMenuTrigger asChild>
+									<Button variant="outline" size="sm" title="Export">
+										<Download className="h-4 w-4" />
+									</Button>
+								</DropdownMenuTrigger>
+								<DropdownMenuContent align="end">
+									<DropdownMenuLabel>Export project</DropdownMenuLabel>
+									{EXPORT_OPTIONS.map(({ format, label }) => (
+										<DropdownMenuItem key={format} asChild>
+											<a href={`/api/projects/${selectedProjectId}/export?format=${format}`} download>
+												{label}
+											</a>
+										</DropdownMenuItem>
+									))}
+									{currentBranchId && (
+										<>
+											<DropdownMenuSeparator />
+											<DropdownMenuLabel>Export current branch</DropdownMenuLabel>
+											{EXPORT_OPTIONS.map(({ format, label }) => (
+												<DropdownMenuItem key={format} asChild>
+													<a href={`/api/projects/${selectedProjectId}/export?format=${format}&branch_id=${currentBranchId}`} download>
+														{label}
+													</a>
+												</DropdownMenuItem>
+											))}
+										</>
+									)}
+								</DropdownMenuContent>
+							</DropdownMenu>
+						)}
+
+						{selectedProjectId && (
+							<UsagePanel
+								trigger={
+									<Button variant="outline" size="sm" title="Usage and cost">
+										<CircleDollarSign className="h-4 w-4" />
+									</Button>
+								}
+							/>
+						)}
+
 						{selectedProjectId && (
 							<Button
 								variant="outline"
@@ -436,6 +531,12 @@ export default function Home() {
 				onCreate={handleCreateProject}
 			/>
 
+			<ImportDialog
+				isOpen={isImportDialogOpen}
+				onClose={() => setIsImportDialogOpen(false)}
+				onImported={handleProjectsImported}
+			/>
+
 			{/* Delete Project Confirmation Dialog */}
 			<AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
 				<AlertDialogContent>
@@ -17,7 +17,7 @@ export function ChatControls() {
 	// Get data and functions from context
 	const {
 		sendMessage,
-		updateStreamingContent
+		stopGeneration
 	} = useConversation();
 
 	const [message, setMessage] = useState('');
@@ -156,7 +156,7 @@ export function ChatControls() {
 								className="h-6 text-xs ml-2 px-2 text-muted-foreground hover:text-destructive"
 								onClick={() => {
 									setIsLoading(false);
-									updateStreamingContent(null);
+									stopGeneration();
 								}}
 							>
 								<StopCircle className="h-3 w-3 mr-1" />
@@ -1,8 +1,10 @@
 import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
 import { useConversation } from '@/lib/contexts/ConversationContext';
 import { TimelineNode } from '@/lib/types/database';
+import { getSummarizedNodeIds } from '@/lib/utils/nodes';
 import { CornerDownRight, Train } from 'lucide-react';
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { AssistantMessage } from './nodes/assistantMessage';
 import { BranchPoint } from './nodes/branchPoint';
 import { BranchRoot } from './nodes/branchRoot';
@@ -20,17 +22,16 @@ export interface BranchInfo {
 	direction: 'left' | 'right' | 'auto';
 }
 
-// Define branch point info structure to support multiple directions
+// Define branch point info structure with any number of child branches
 export interface BranchPointInfo {
 	parentBranchId: string;
 	nodeId: string;
 	position: number;
 	parentBranchColor: string;
-	branches: {
-		left?: BranchInfo;
-		right?: BranchInfo;
-		auto?: BranchInfo;
-	};
+	// Child branches forking from this point, oldest first
+	branches: BranchInfo[];
+	// Regenerated answers at this point, starting with the original on the parent branch
+	alternatives: BranchInfo[];
 }
 
 interface ConversationViewProps {
@@ -51,7 +52,10 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
 		getBranchName,
 		branches,
 		switchBranch,
-		allNodes
+		regenerateMessage,
+		editMessage,
+		allNodes,
+		focusRequest
 	} = useConversation();
 
 	// Local state
@@ -59,6 +63,8 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
 	const [scrollToBottomVisible, setScrollToBottomVisible] = useState(false);
 	const scrollContainerRef = useRef<HTMLDivElement>(null);
 	const messagesEndRef = useRef<HTMLDivElement>(null);
+	const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+	const handledFocusRef = useRef<number | null>(null);
 
 	// Handle message selection
 	const handleMessageSelect = (nodeId: string) => {
@@ -75,6 +81,34 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
 		}
 	};
 
+	// Regenerate an assistant response on a new sibling branch
+	const handleRegenerate = async (nodeId: string, overrides?: { model?: string; temperature?: number }) => {
+		try {
+			await regenerateMessage(nodeId, overrides);
+		} catch (error) {
+			console.error('Failed to regenerate response:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to regenerate the response. Please try again.',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	// Edit a user message by forking a new branch with the edited text
+	const handleEdit = async (nodeId: string, text: string) => {
+		try {
+			await editMessage(nodeId, text);
+		} catch (error) {
+			console.error('Failed to edit message:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to fork the edited message. Please try again.',
+				variant: 'destructive',
+			});
+		}
+	};
+
 	// Get message station number (position in the conversation)
 	const getStationNumber = (message: TimelineNode, index: number, messages: TimelineNode[]): number => {
 		// Count only user and assistant messages
@@ -95,39 +129,56 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
 
 		if (!parentBranchId) return undefined;
 
-		// Build branch mapping by direction
-		const branchMap: {
-			left?: BranchInfo;
-			right?: BranchInfo;
-			auto?: BranchInfo;
-		} = {};
-
-		// Process each child branch and organize by direction
-		childBranches.forEach(branch => {
-			let direction: 'left' | 'right' | 'auto' = 'auto';
-
-			// Extract direction from branch metadata
-			if (branch.metadata?.layout?.direction) {
-				if (['left', 'right', 'auto'].includes(branch.metadata.layout.direction)) {
-					direction = branch.metadata.layout.direction as 'left' | 'right' | 'auto';
+		// Collect every child branch in creation order
+		const childBranchInfos: BranchInfo[] = [...childBranches]
+			.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+			.map(branch => {
+				let direction: 'left' | 'right' | 'auto' = 'auto';
+
+				// Extract direction from branch metadata
+				if (branch.metadata?.layout?.direction) {
+					if (['left', 'right', 'auto'].includes(branch.metadata.layout.direction)) {
+						direction = branch.metadata.layout.direction as 'left' | 'right' | 'auto';
+					}
 				}
-			}
 
-			// Add to appropriate direction in map
-			branchMap[direction] = {
-				branchId: branch.id,
-				branchName: branch.name,
-				branchColor: getBranchColor(branch.id),
-				direction
-			};
-		});
+				return {
+					branchId: branch.id,
+					branchName: branch.name,
+					branchColor: getBranchColor(branch.id),
+					direction
+				};
+			});
+
+		// Regenerated answers, oldest first, preceded by the original answer on the parent branch
+		const regeneratedBranches = childBranches
+			.filter(branch => branch.metadata?.regenerated_from)
+			.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+		const alternatives: BranchInfo[] = regeneratedBranches.length > 0
+			? [
+				{
+					branchId: parentBranchId,
+					branchName: getBranchName(parentBranchId),
+					branchColor: getBranchColor(parentBranchId),
+					direction: 'auto'
+				},
+				...regeneratedBranches.map(branch => ({
+					branchId: branch.id,
+					branchName: branch.name,
+					branchColor: getBranchColor(branch.id),
+					direction: 'auto' as const
+				}))
+			]
+			: [];
 
 		return {
 			parentBranchId,
 			nodeId,
 			position: allNodes.find(m => m.id === nodeId)?.position || 0,
 			parentBranchColor: getBranchColor(parentBranchId),
-			branches: branchMap
+			branches: childBranchInfos,
+			alternatives
 		};
 	};
 
@@ -136,7 +187,7 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
 		if (!branchPointInfo) return null;
 
 		// Get all branches at this point
-		const branches = Object.values(branchPointInfo.branches).filter(Boolean);
+		const branches = branchPointInfo.branches;
 
 		// If we're on the parent branch, suggest first available child branch
 		if (currentBranchId === branchPointInfo.parentBranchId) {
@@ -188,6 +239,9 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
 
 	// Auto-scroll when new messages arrive if already near the bottom
 	useEffect(() => {
+		// A message requested through focusNode is scrolled to instead
+		if (focusRequest && handledFocusRef.current !== focusRequest.requestedAt) return;
+
 		if (displayedChatNodes.length > 0) {
 			// Only auto-scroll if we're already near the bottom
 			if (scrollContainerRef.current) {
@@ -199,7 +253,30 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
 				}
 			}
 		}
-	}, [displayedChatNodes]);
+	}, [displayedChatNodes, focusRequest]);
+
+	// Scroll to a message requested through focusNode once its branch is displayed
+	useEffect(() => {
+		if (!focusRequest || handledFocusRef.current === focusRequest.requestedAt) return;
+		if (!displayedChatNodes.some(node => node.id === focusRequest.nodeId)) return;
+
+		const element = scrollContainerRef.current?.querySelector(`[data-id="${focusRequest.nodeId}"]`);
+		if (!element) return;
+
+		handledFocusRef.current = focusRequest.requestedAt;
+		element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+		setHighlightedMessageId(focusRequest.nodeId);
+	}, [focusRequest, displayedChatNodes]);
+
+	// Fade the highlight of a focused message out after a moment
+	useEffect(() => {
+		if (!highlightedMessageId) return;
+		const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+		return () => clearTimeout(timer);
+	}, [highlightedMessageId]);
+
+	// Messages the latest response only saw through a context summary
+	const summarizedNodeIds = useMemo(() => getSummarizedNodeIds(displayedChatNodes), [displayedChatNodes]);
 
 	// Check if we have any messages to display
 	const hasMessagesToDisplay = displayedChatNodes.some(node =>
@@ -289,6 +366,9 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
 								isActive={activeMessage === node.id}
 								branchColor={getBranchColor(node.branch_id)}
 								onMessageSelect={handleMessageSelect}
+								isSummarized={summarizedNodeIds.has(node.id)}
+								isHighlighted={highlightedMessageId === node.id}
+								onEdit={handleEdit}
 							/>
 						);
 					}
@@ -317,6 +397,9 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
 								getBranchSwitchTarget={getBranchSwitchTarget}
 								currentBranchId={currentBranchId}
 								switchBranch={switchBranch}
+								isSummarized={summarizedNodeIds.has(node.id)}
+								isHighlighted={highlightedMessageId === node.id}
+								onRegenerate={handleRegenerate}
 							/>
 						);
 					}
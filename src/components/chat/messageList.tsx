@@ -21,6 +21,7 @@ import {
 import { useConversation } from '@/lib/contexts/ConversationContext';
 import { Branch, TimelineNode } from '@/lib/types/database';
 import { cn } from '@/lib/utils';
+import { getSummarizedNodeIds } from '@/lib/utils/nodes';
 import {
 	ArrowLeft,
 	ArrowRight,
@@ -106,6 +107,9 @@ export const MessageList = forwardRef<MessageListRef, MessageListProps>(({
 	const [scrollToBottomVisible, setScrollToBottomVisible] = useState(false);
 	const scrollContainerRef = useRef<HTMLDivElement>(null);
 
+	// Messages the latest response only saw through a context summary
+	const summarizedNodeIds = useMemo(() => getSummarizedNodeIds(displayedChatNodes), [displayedChatNodes]);
+
 	// Track segments - purely UI-specific state
 	const [trackSegments, setTrackSegments] = useState<Array<{
 		id: string;
@@ -833,6 +837,14 @@ export const MessageList = forwardRef<MessageListRef, MessageListProps>(({
 											{!isUser && (
 												<span className="ml-1">• Station {stationNumber}</span>
 											)}
+											{summarizedNodeIds.has(message.id) && (
+												<span
+													className={cn("ml-1", !isUser && "text-amber-600")}
+													title="The latest response saw this message only as part of a summary"
+												>
+													• Summarized
+												</span>
+											)}
 										</div>
 
 										<div className="p-3.5">
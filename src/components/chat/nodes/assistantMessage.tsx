@@ -1,10 +1,13 @@
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { TimelineNode } from '@/lib/types/database';
 import { cn } from '@/lib/utils';
-import { ArrowLeftCircle, ArrowRightCircle, Bot, SwitchCamera } from 'lucide-react';
-import React from 'react';
+import { ArrowLeftCircle, ArrowRightCircle, Bot, GitMerge, RefreshCw, StopCircle, SwitchCamera } from 'lucide-react';
+import React, { useState } from 'react';
 import { BranchPointInfo } from '../conversationView';
 import { TrackSegment } from './trackSegment';
 
@@ -22,6 +25,9 @@ interface AssistantMessageProps {
 	getBranchSwitchTarget?: (branchPointInfo: BranchPointInfo | undefined, currentBranchId: string | null) => { branchId: string; branchName: string | null; branchColor: string; } | null;
 	currentBranchId: string | null;
 	switchBranch: (branchId: string) => void;
+	isSummarized?: boolean;
+	isHighlighted?: boolean;
+	onRegenerate?: (messageId: string, overrides?: { model?: string; temperature?: number }) => void;
 }
 
 export const AssistantMessage: React.FC<AssistantMessageProps> = ({
@@ -36,14 +42,36 @@ export const AssistantMessage: React.FC<AssistantMessageProps> = ({
 	branchPointInfo,
 	getBranchSwitchTarget,
 	currentBranchId,
-	switchBranch
+	switchBranch,
+	isSummarized = false,
+	isHighlighted = false,
+	onRegenerate
 }) => {
+	// Optional overrides for regenerating this response
+	const [regenerateOpen, setRegenerateOpen] = useState(false);
+	const [regenerateModel, setRegenerateModel] = useState('');
+	const [regenerateTemperature, setRegenerateTemperature] = useState('');
+
 	// Same logic as in messageList but scoped to this component
 	const messageText = node.id === 'streaming-message' && streamingContent !== null
 		? streamingContent
 		: node.message_text || '';
 	const isStreaming = node.id === 'streaming-message' && streamingContent !== null;
 	const showTypingIndicator = Boolean(isStreaming || node.isStreaming);
+	const canRegenerate = Boolean(onRegenerate) && !showTypingIndicator && !node.metadata?.merge && node.id !== 'streaming-message';
+
+	const handleRegenerate = () => {
+		if (!onRegenerate) return;
+
+		const temperature = parseFloat(regenerateTemperature);
+		const overrides = {
+			...(regenerateModel.trim() ? { model: regenerateModel.trim() } : {}),
+			...(!isNaN(temperature) ? { temperature } : {})
+		};
+
+		setRegenerateOpen(false);
+		onRegenerate(node.id, Object.keys(overrides).length > 0 ? overrides : undefined);
+	};
 
 	// Format message text with typing indicators
 	const formatMessageText = (text: string, showTypingIndicator: boolean): string => {
@@ -72,7 +100,8 @@ export const AssistantMessage: React.FC<AssistantMessageProps> = ({
 				"group relative z-10 my-3",
 				"mx-auto w-full max-w-3xl px-16",
 				"flex flex-col items-center",
-				isStreaming && "animate-fadeIn"
+				isStreaming && "animate-fadeIn",
+				isHighlighted && "rounded-xl ring-2 ring-primary/60 ring-offset-4 transition-shadow"
 			)}
 			onClick={() => onMessageSelect(node.id)}
 			data-node="message"
@@ -183,6 +212,16 @@ export const AssistantMessage: React.FC<AssistantMessageProps> = ({
 							})
 						}
 						<span className="ml-1">• Station {stationNumber}</span>
+						{isSummarized && (
+							<span className="ml-1 text-amber-600" title="The latest response saw this message only as part of a summary">
+								• Summarized
+							</span>
+						)}
+						{node.metadata?.stopped && !isStreaming && (
+							<span className="ml-1 text-amber-600" title="Generation was stopped before the response was complete">
+								• Stopped
+							</span>
+						)}
 					</div>
 
 					<div className="p-3.5">
@@ -204,65 +243,124 @@ export const AssistantMessage: React.FC<AssistantMessageProps> = ({
 							{isStreaming && (
 								<span className="ml-2 text-primary animate-pulse">generating...</span>
 							)}
+							{node.metadata?.stopped && !isStreaming && (
+								<span className="ml-2 flex items-center gap-1 text-amber-600">
+									<StopCircle className="h-3 w-3" />
+									Partial response
+								</span>
+							)}
 						</div>
+						{node.metadata?.merge && (
+							<div
+								className="flex items-center gap-1"
+								style={{ color: node.metadata.merge.source_branch_color || undefined }}
+							>
+								<GitMerge className="h-3 w-3" />
+								<span>Merged from {node.metadata.merge.source_branch_name || 'branch'}</span>
+							</div>
+						)}
+						{canRegenerate && (
+							<Popover open={regenerateOpen} onOpenChange={setRegenerateOpen}>
+								<PopoverTrigger asChild>
+									<Button
+										variant="ghost"
+										size="sm"
+										className="h-6 px-2 text-xs hover:bg-background rounded-full border border-transparent hover:border-muted"
+										onClick={(e) => e.stopPropagation()}
+									>
+										<RefreshCw className="h-3 w-3 mr-1" />
+										Regenerate
+									</Button>
+								</PopoverTrigger>
+								<PopoverContent className="w-64 space-y-3" onClick={(e) => e.stopPropagation()}>
+									<div className="text-xs text-muted-foreground">
+										The new answer is created on a sibling branch. Leave fields empty to keep the current settings.
+									</div>
+									<div className="space-y-1">
+										<Label htmlFor={`regenerate-model-${node.id}`} className="text-xs">Model</Label>
+										<Input
+											id={`regenerate-model-${node.id}`}
+											value={regenerateModel}
+											onChange={(e) => setRegenerateModel(e.target.value)}
+											placeholder={node.metadata?.model || 'Current model'}
+											className="h-8 text-xs"
+										/>
+									</div>
+									<div className="space-y-1">
+										<Label htmlFor={`regenerate-temperature-${node.id}`} className="text-xs">Temperature</Label>
+										<Input
+											id={`regenerate-temperature-${node.id}`}
+											type="number"
+											step="0.1"
+											min="0"
+											max="2"
+											value={regenerateTemperature}
+											onChange={(e) => setRegenerateTemperature(e.target.value)}
+											placeholder="Current temperature"
+											className="h-8 text-xs"
+										/>
+									</div>
+									<Button size="sm" className="w-full" onClick={handleRegenerate}>
+										<RefreshCw className="h-3.5 w-3.5 mr-1" />
+										Regenerate
+									</Button>
+								</PopoverContent>
+							</Popover>
+						)}
 
 
 					</div>
 				</Card>
-				{/* Branch buttons with disabled states */}
+				{/* Branch buttons; any number of branches can fork from a message */}
 				{!isStreaming && (
 					<div className="flex items-center justify-between gap-2">
-						{!branchPointInfo?.branches?.left && (
-							<TooltipProvider>
-								<Tooltip>
-									<TooltipTrigger asChild>
-										<Button
-											variant="ghost"
-											size="sm"
-											onClick={(e) => {
-												e.stopPropagation();
-												onBranchClick(node.id, 'left');
-											}}
-											className="h-6 w-6 p-0 rounded-full hover:bg-background hover:border border-muted"
-										>
-											<div className="flex items-center gap-1">
-												<ArrowLeftCircle className="h-3.5 w-3.5" />
-												<span className="text-xs">New Branch</span>
-											</div>
-										</Button>
-									</TooltipTrigger>
-									<TooltipContent side="top">
-										Branch left
-									</TooltipContent>
-								</Tooltip>
-							</TooltipProvider>
-						)}
+						<TooltipProvider>
+							<Tooltip>
+								<TooltipTrigger asChild>
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={(e) => {
+											e.stopPropagation();
+											onBranchClick(node.id, 'left');
+										}}
+										className="h-6 w-6 p-0 rounded-full hover:bg-background hover:border border-muted"
+									>
+										<div className="flex items-center gap-1">
+											<ArrowLeftCircle className="h-3.5 w-3.5" />
+											<span className="text-xs">New Branch</span>
+										</div>
+									</Button>
+								</TooltipTrigger>
+								<TooltipContent side="top">
+									Branch left
+								</TooltipContent>
+							</Tooltip>
+						</TooltipProvider>
 
-						{!branchPointInfo?.branches?.right && (
-							<TooltipProvider>
-								<Tooltip>
-									<TooltipTrigger asChild>
-										<Button
-											variant="ghost"
-											size="sm"
-											onClick={(e) => {
-												e.stopPropagation();
-												onBranchClick(node.id, 'right');
-											}}
-											className="h-6 w-6 p-0 rounded-full hover:bg-background hover:border border-muted"
-										>
-											<div className="flex items-center gap-1">
-												<span className="text-xs">New Branch</span>
-												<ArrowRightCircle className="h-3.5 w-3.5" />
-											</div>
-										</Button>
-									</TooltipTrigger>
-									<TooltipContent side="top">
-										Branch right
-									</TooltipContent>
-								</Tooltip>
-							</TooltipProvider>
-						)}
+						<TooltipProvider>
+							<Tooltip>
+								<TooltipTrigger asChild>
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={(e) => {
+											e.stopPropagation();
+											onBranchClick(node.id, 'right');
+										}}
+										className="h-6 w-6 p-0 rounded-full hover:bg-background hover:border border-muted"
+									>
+										<div className="flex items-center gap-1">
+											<span className="text-xs">New Branch</span>
+											<ArrowRightCircle className="h-3.5 w-3.5" />
+										</div>
+									</Button>
+								</TooltipTrigger>
+								<TooltipContent side="top">
+									Branch right
+								</TooltipContent>
+							</Tooltip>
+						</TooltipProvider>
 					</div>
 				)}
 			</div>
@@ -1,9 +1,8 @@
 import { Button } from '@/components/ui/button';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { TimelineNode } from '@/lib/types/database';
-import { ArrowLeftCircle, ArrowRightCircle, GitBranch, SwitchCamera } from 'lucide-react';
+import { ArrowLeft, ArrowRight, ChevronLeft, ChevronRight, GitBranch } from 'lucide-react';
 import React from 'react';
-import { BranchPointInfo } from '../conversationView';
+import { BranchInfo, BranchPointInfo } from '../conversationView';
 
 interface BranchPointProps {
 	node: TimelineNode;
@@ -20,24 +19,45 @@ export const BranchPoint: React.FC<BranchPointProps> = ({
 	getBranchName,
 	switchBranch
 }) => {
-	// Extract branch information
-	const leftBranch = branchPointInfo.branches.left;
-	const rightBranch = branchPointInfo.branches.right;
+	// Child branches forking from this point, oldest first
+	const childBranches = branchPointInfo.branches;
+	const currentChildBranch = childBranches.find(branch => branch.branchId === currentBranchId);
 
 	// Determine which branch we're currently on
 	const isOnParentBranch = currentBranchId == null || currentBranchId === branchPointInfo.parentBranchId;
 
-	const isOnLeftBranch = currentBranchId === leftBranch?.branchId;
-	const isOnRightBranch = currentBranchId === rightBranch?.branchId;
+	// Regenerated answers at this point that can be flipped through
+	const alternatives = branchPointInfo.alternatives || [];
+	const alternativeIndex = isOnParentBranch
+		? 0
+		: alternatives.findIndex(alternative => alternative.branchId === currentBranchId);
 
 	// Determine the current branch color (for the bottom track)
-	const currentBranchColor = isOnParentBranch
-		? branchPointInfo.parentBranchColor
-		: isOnLeftBranch
-			? leftBranch?.branchColor
-			: isOnRightBranch
-				? rightBranch?.branchColor
-				: branchPointInfo.parentBranchColor;
+	const currentBranchColor = currentChildBranch?.branchColor || branchPointInfo.parentBranchColor;
+
+	// Side of the track each branch leaves on, matching the subway map layout
+	const getBranchSide = (branch: BranchInfo, index: number): 'left' | 'right' =>
+		branch.direction === 'auto'
+			? (index % 2 === 0 ? 'right' : 'left')
+			: branch.direction;
+
+	// Show a side track when a branch other than the one being viewed leaves on that side
+	const otherBranches = childBranches
+		.map((branch, index) => ({ branch, side: getBranchSide(branch, index) }))
+		.filter(({ branch }) => branch.branchId !== currentBranchId);
+	const leftTrack = otherBranches.find(({ side }) => side === 'left')?.branch;
+	const rightTrack = otherBranches.find(({ side }) => side === 'right')?.branch;
+
+	// Every line passing through this point, starting with the parent line
+	const lines: BranchInfo[] = [
+		{
+			branchId: branchPointInfo.parentBranchId,
+			branchName: getBranchName(branchPointInfo.parentBranchId),
+			branchColor: branchPointInfo.parentBranchColor,
+			direction: 'auto'
+		},
+		...childBranches
+	];
 
 	return (
 		<div
@@ -46,42 +66,12 @@ export const BranchPoint: React.FC<BranchPointProps> = ({
 			data-id={node.id}
 			data-branch={node.branch_id}
 			data-parent-branch={branchPointInfo.parentBranchId}
-			data-left-branch={leftBranch?.branchId || null}
-			data-right-branch={rightBranch?.branchId || null}
+			data-child-branches={childBranches.map(branch => branch.branchId).join(' ')}
 			data-current-view={
 				isOnParentBranch ? 'parent' :
-					isOnLeftBranch ? 'left' :
-						isOnRightBranch ? 'right' : 'unknown'
+					currentChildBranch ? 'child' : 'unknown'
 			}
 		>
-			{!isOnParentBranch && (
-				<div className="absolute transform z-20">
-					<TooltipProvider>
-						<Tooltip>
-							<TooltipTrigger asChild>
-								<Button
-									variant="outline"
-									size="icon"
-									className="h-6 w-6 bg-white shadow-sm border rounded-full"
-									onClick={(e) => {
-										e.stopPropagation();
-										switchBranch(branchPointInfo.parentBranchId);
-									}}
-									style={{
-										color: branchPointInfo.parentBranchColor,
-										borderColor: `${branchPointInfo.parentBranchColor}60`,
-									}}
-								>
-									<SwitchCamera className="h-3 w-3" />
-								</Button>
-							</TooltipTrigger>
-							<TooltipContent side="top">
-								<p>Return to main branch</p>
-							</TooltipContent>
-						</Tooltip>
-					</TooltipProvider>
-				</div>
-			)}
 			{/* Top track - always parent branch color coming in */}
 			<div
 				className="absolute left-1/2 top-0 transform -translate-x-1/2 z-0"
@@ -114,103 +104,104 @@ export const BranchPoint: React.FC<BranchPointProps> = ({
 					<GitBranch className="size-6" style={{ color: branchPointInfo.parentBranchColor }} />
 				</div>
 
-				{/* Left branch - only show if it exists and we're not currently on it */}
-				{leftBranch && !isOnLeftBranch && (
-					<div className="absolute right-1/2 top-1/2 transform -translate-y-1/2 pointer-events-none" style={{ zIndex: 0 }}>
-						<div className="relative">
-							{/* Horizontal branch line to the left */}
-							<div
-								className="absolute h-[2.5px]"
-								style={{
-									background: leftBranch.branchColor,
-									borderTopLeftRadius: '4px',
-									width: 'calc(50vw - 20px)',
-									right: '-10px',
-									top: '-1.5px',
-									zIndex: 1
-								}}
-							/>
-
-							{/* Switch to left branch button - now positioned on top of track */}
-							<div className="absolute transform -translate-y-1/2 pointer-events-auto" style={{ right: '80px', zIndex: 2 }}>
-								<TooltipProvider>
-									<Tooltip>
-										<TooltipTrigger asChild>
-											<Button
-												variant="outline"
-												size="icon"
-												className="h-6 w-6 bg-white shadow-sm border rounded-full"
-												onClick={(e) => {
-													e.stopPropagation();
-													switchBranch(leftBranch.branchId);
-												}}
-												style={{
-													color: leftBranch.branchColor,
-													borderColor: leftBranch.branchColor,
-												}}
-											>
-												<ArrowLeftCircle className="h-3 w-3" />
-											</Button>
-										</TooltipTrigger>
-										<TooltipContent side="top">
-											<p>Switch to {leftBranch.branchName || 'left branch'}</p>
-										</TooltipContent>
-									</Tooltip>
-								</TooltipProvider>
-							</div>
-						</div>
-					</div>
+				{/* Side tracks for branches leaving to the left and right */}
+				{leftTrack && (
+					<div
+						className="absolute right-1/2 top-1/2 h-[2.5px] pointer-events-none"
+						style={{
+							background: leftTrack.branchColor,
+							borderTopLeftRadius: '4px',
+							width: 'calc(50vw - 20px)',
+							marginRight: '-10px',
+							zIndex: 0
+						}}
+					/>
 				)}
-
-				{/* Right branch - only show if it exists and we're not currently on it */}
-				{rightBranch && !isOnRightBranch && (
-					<div className="absolute left-1/2 top-1/2 transform -translate-y-1/2 pointer-events-none" style={{ zIndex: 0 }}>
-						<div className="relative">
-							{/* Horizontal branch line to the right */}
-							<div
-								className="absolute h-[2.5px]"
-								style={{
-									background: rightBranch.branchColor,
-									borderTopRightRadius: '4px',
-									width: 'calc(50vw - 20px)',
-									left: '-10px',
-									top: '-1.5px',
-									zIndex: 1
-								}}
-							/>
-
-							{/* Switch to right branch button - now positioned on top of track */}
-							<div className="absolute transform -translate-y-1/2 pointer-events-auto" style={{ left: '80px', zIndex: 2 }}>
-								<TooltipProvider>
-									<Tooltip>
-										<TooltipTrigger asChild>
-											<Button
-												variant="outline"
-												size="icon"
-												className="h-6 w-6 bg-white shadow-sm border rounded-full"
-												onClick={(e) => {
-													e.stopPropagation();
-													switchBranch(rightBranch.branchId);
-												}}
-												style={{
-													color: rightBranch.branchColor,
-													borderColor: rightBranch.branchColor,
-												}}
-											>
-												<ArrowRightCircle className="h-3 w-3" />
-											</Button>
-										</TooltipTrigger>
-										<TooltipContent side="top">
-											<p>Switch to {rightBranch.branchName || 'right branch'}</p>
-										</TooltipContent>
-									</Tooltip>
-								</TooltipProvider>
-							</div>
-						</div>
-					</div>
+				{rightTrack && (
+					<div
+						className="absolute left-1/2 top-1/2 h-[2.5px] pointer-events-none"
+						style={{
+							background: rightTrack.branchColor,
+							borderTopRightRadius: '4px',
+							width: 'calc(50vw - 20px)',
+							marginLeft: '-10px',
+							zIndex: 0
+						}}
+					/>
 				)}
 			</div>
 
+			{/* Line selector - every line through this point can be switched to */}
+			<div className="relative z-20 flex flex-wrap items-center justify-center gap-1.5 max-w-full mb-2">
+				{lines.map((line, index) => {
+					const isCurrent = line.branchId === currentBranchId || (index === 0 && isOnParentBranch);
+					const side = index === 0 ? null : getBranchSide(line, index - 1);
+
+					return (
+						<Button
+							key={line.branchId}
+							variant="outline"
+							size="sm"
+							className="h-6 px-2 gap-1.5 rounded-full bg-background text-xs shadow-sm"
+							onClick={(e) => {
+								e.stopPropagation();
+								if (!isCurrent) switchBranch(line.branchId);
+							}}
+							style={{
+								borderColor: isCurrent ? line.branchColor : `${line.branchColor}60`,
+								background: isCurrent ? `${line.branchColor}15` : undefined,
+								color: line.branchColor
+							}}
+							title={isCurrent ? 'Current line' : `Switch to ${line.branchName || 'branch'}`}
+						>
+							{side === 'left' && <ArrowLeft className="h-3 w-3" />}
+							<span className="size-2 rounded-full shrink-0" style={{ background: line.branchColor }} />
+							<span className="truncate max-w-[8rem]">
+								{line.branchName || (index === 0 ? 'Main line' : `Branch ${index}`)}
+							</span>
+							{side === 'right' && <ArrowRight className="h-3 w-3" />}
+						</Button>
+					);
+				})}
+			</div>
+
+			{/* Switcher between regenerated answers */}
+			{alternatives.length > 1 && alternativeIndex >= 0 && (
+				<div
+					className="relative flex items-center gap-1 text-xs font-medium px-1 py-0.5 rounded-full bg-background border shadow-sm z-20"
+					style={{
+						borderColor: `${alternatives[alternativeIndex].branchColor}60`,
+						color: alternatives[alternativeIndex].branchColor
+					}}
+				>
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-5 w-5 rounded-full"
+						disabled={alternativeIndex === 0}
+						onClick={(e) => {
+							e.stopPropagation();
+							switchBranch(alternatives[alternativeIndex - 1].branchId);
+						}}
+					>
+						<ChevronLeft className="h-3 w-3" />
+					</Button>
+					<span>Answer {alternativeIndex + 1} of {alternatives.length}</span>
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-5 w-5 rounded-full"
+						disabled={alternativeIndex === alternatives.length - 1}
+						onClick={(e) => {
+							e.stopPropagation();
+							switchBranch(alternatives[alternativeIndex + 1].branchId);
+						}}
+					>
+						<ChevronRight className="h-3 w-3" />
+					</Button>
+				</div>
+			)}
+
 			{/* Visual label with branch info */}
 			<div
 				className="absolute top-1 right-3 text-xs font-medium px-2 py-1 rounded-full bg-background/80 border z-10"
@@ -219,7 +210,9 @@ export const BranchPoint: React.FC<BranchPointProps> = ({
 					color: branchPointInfo.parentBranchColor
 				}}
 			>
-				{isOnParentBranch ? 'Branch junction' : 'Branch point'}
+				{childBranches.length > 1
+					? `${childBranches.length + 1} lines`
+					: isOnParentBranch ? 'Branch junction' : 'Branch point'}
 			</div>
 		</div>
 	);
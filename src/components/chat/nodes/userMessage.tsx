@@ -1,6 +1,8 @@
-import React from 'react';
-import { User } from 'lucide-react';
+import React, { useState } from 'react';
+import { GitBranch, PenLine, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
 import { TrackSegment } from './trackSegment';
 import { TimelineNode } from '@/lib/types/database';
@@ -10,6 +12,9 @@ interface UserMessageProps {
     isActive: boolean;
     branchColor: string;
     onMessageSelect: (messageId: string) => void;
+    isSummarized?: boolean;
+    isHighlighted?: boolean;
+    onEdit?: (messageId: string, text: string) => Promise<void>;
 }
 
 export const UserMessage: React.FC<UserMessageProps> = ({
@@ -17,13 +22,37 @@ export const UserMessage: React.FC<UserMessageProps> = ({
     isActive,
     branchColor,
     onMessageSelect,
+    isSummarized = false,
+    isHighlighted = false,
+    onEdit,
 }) => {
+    // Inline edit state; saving forks a new branch instead of changing this message
+    const [isEditing, setIsEditing] = useState(false);
+    const [editText, setEditText] = useState(node.message_text || '');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSaveEdit = async () => {
+        if (!onEdit || !editText.trim() || editText.trim() === (node.message_text || '').trim()) {
+            setIsEditing(false);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await onEdit(node.id, editText);
+            setIsEditing(false);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
     return (
         <div
             className={cn(
                 "group relative z-10 my-3",
                 "mx-auto w-full max-w-3xl px-16",
-                "flex flex-col items-center"
+                "flex flex-col items-center",
+                isHighlighted && "rounded-xl ring-2 ring-primary/60 ring-offset-4 transition-shadow"
             )}
             onClick={() => onMessageSelect(node.id)}
             data-node="message"
@@ -77,12 +106,67 @@ export const UserMessage: React.FC<UserMessageProps> = ({
                             hour: '2-digit',
                             minute: '2-digit'
                         })}
+                        {onEdit && !isEditing && (
+                            <button
+                                className="float-right opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1 hover:text-white"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEditText(node.message_text || '');
+                                    setIsEditing(true);
+                                }}
+                                title="Edit and fork a new branch from this message"
+                            >
+                                <PenLine className="h-3 w-3" />
+                                Edit
+                            </button>
+                        )}
+                        {isSummarized && (
+                            <span className="ml-1" title="The latest response saw this message only as part of a summary">
+                                • Summarized
+                            </span>
+                        )}
                     </div>
 
                     <div className="p-3.5">
-                        <div className="prose prose-sm max-w-none prose-invert">
-                            {node.message_text || ''}
-                        </div>
+                        {isEditing ? (
+                            <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+                                <Textarea
+                                    value={editText}
+                                    onChange={(e) => setEditText(e.target.value)}
+                                    className="min-h-[80px] text-sm bg-white text-foreground"
+                                    disabled={isSaving}
+                                    autoFocus
+                                />
+                                <div className="flex justify-end gap-2">
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-7 text-xs text-white hover:bg-black/10 hover:text-white"
+                                        onClick={() => {
+                                            setEditText(node.message_text || '');
+                                            setIsEditing(false);
+                                        }}
+                                        disabled={isSaving}
+                                    >
+                                        Cancel
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        variant="secondary"
+                                        className="h-7 text-xs"
+                                        onClick={handleSaveEdit}
+                                        disabled={isSaving || !editText.trim()}
+                                    >
+                                        <GitBranch className="h-3 w-3 mr-1" />
+                                        {isSaving ? 'Forking...' : 'Save as new branch'}
+                                    </Button>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="prose prose-sm max-w-none prose-invert">
+                                {node.message_text || ''}
+                            </div>
+                        )}
                     </div>
                 </Card>
             </div>
@@ -1,9 +1,114 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useConversation } from '@/lib/contexts/ConversationContext';
 import { Button } from '@/components/ui/button';
 import { visualizeBranchTree } from '@/lib/layout/treeVisualizer';
+import type { LayoutServiceType } from '@/lib/layout/layoutServiceFactory';
+import type { LayoutResult } from '@/lib/layout/treeBasedLayoutService';
+import { Branch } from '@/lib/types/database';
+
+// Algorithms shown side by side in comparison mode
+const COMPARED_LAYOUTS: { type: LayoutServiceType; label: string }[] = [
+  { type: 'slot', label: 'Slot' },
+  { type: 'tree', label: 'Tree' },
+  { type: 'elk', label: 'ELK' }
+];
+
+const PREVIEW_WIDTH = 180;
+const PREVIEW_HEIGHT = 220;
+
+interface LayoutComparison {
+  type: LayoutServiceType;
+  result: LayoutResult | null;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Count places where the connector into a branch crosses another branch's line
+ */
+function countCrossings(result: LayoutResult, branches: Branch[]): number {
+  let crossings = 0;
+  
+  branches.forEach(branch => {
+    const layout = result.branchLayouts[branch.id];
+    const parent = branch.parent_branch_id ? result.branchLayouts[branch.parent_branch_id] : undefined;
+    if (!layout || !parent) return;
+    
+    const left = Math.min(layout.x, parent.x);
+    const right = Math.max(layout.x, parent.x);
+    
+    branches.forEach(other => {
+      if (other.id === branch.id || other.id === branch.parent_branch_id) return;
+      const otherLayout = result.branchLayouts[other.id];
+      if (!otherLayout) return;
+      
+      const spansY = layout.y >= otherLayout.y && layout.y <= otherLayout.y + otherLayout.height;
+      if (spansY && otherLayout.x > left && otherLayout.x < right) crossings++;
+    });
+  });
+  
+  return crossings;
+}
+
+/**
+ * Small drawing of a layout: one vertical line per branch and its connector to the parent
+ */
+function LayoutPreview({ result, branches }: { result: LayoutResult; branches: Branch[] }) {
+  const layouts = Object.values(result.branchLayouts);
+  if (layouts.length === 0) {
+    return <div className="text-[10px] text-muted-foreground">No branches laid out</div>;
+  }
+  
+  const minX = Math.min(...layouts.map(layout => layout.x));
+  const maxX = Math.max(...layouts.map(layout => layout.x));
+  const minY = Math.min(...layouts.map(layout => layout.y));
+  const maxY = Math.max(...layouts.map(layout => layout.y + layout.height));
+  const padding = 10;
+  const scale = Math.min(
+    (PREVIEW_WIDTH - padding * 2) / Math.max(maxX - minX, 1),
+    (PREVIEW_HEIGHT - padding * 2) / Math.max(maxY - minY, 1)
+  );
+  const toX = (x: number) => padding + (x - minX) * scale + (maxX === minX ? (PREVIEW_WIDTH - padding * 2) / 2 : 0);
+  const toY = (y: number) => padding + (y - minY) * scale;
+  
+  return (
+    <svg width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} className="bg-gray-50 rounded">
+      {branches.map(branch => {
+        const layout = result.branchLayouts[branch.id];
+        if (!layout) return null;
+        const parent = branch.parent_branch_id ? result.branchLayouts[branch.parent_branch_id] : undefined;
+        const color = branch.color || '#64748b';
+        
+        return (
+          <g key={branch.id}>
+            {parent && (
+              <line
+                x1={toX(parent.x)}
+                y1={toY(layout.y)}
+                x2={toX(layout.x)}
+                y2={toY(layout.y)}
+                stroke={color}
+                strokeWidth={2}
+                strokeDasharray="3 2"
+              />
+            )}
+            <line
+              x1={toX(layout.x)}
+              y1={toY(layout.y)}
+              x2={toX(layout.x)}
+              y2={toY(layout.y + layout.height)}
+              stroke={color}
+              strokeWidth={branch.depth === 0 ? 4 : 3}
+              strokeLinecap="round"
+            />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
 
 export function ElkDebug() {
   const { 
@@ -11,6 +116,7 @@ export function ElkDebug() {
     recalculateLayout,
     branches,
     allNodes,
+    layout,
     loading
   } = useConversation();
   
@@ -18,19 +124,22 @@ export function ElkDebug() {
   const [isRecalculating, setIsRecalculating] = useState(false);
   const [debugInfo, setDebugInfo] = useState<any>(null);
   const [showDetailedTree, setShowDetailedTree] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [comparisons, setComparisons] = useState<LayoutComparison[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
 
   useEffect(() => {
     // Log the loading state from context for debugging
     console.log("Layout loading state:", loading.layout);
     
-    // When branches change, extract layout data from branch metadata
+    // When branches change, extract layout data from the computed layout
     if (branches && branches.length > 0) {
-      // Extract layout information from branch metadata
+      // Extract layout information from the layout the map is drawn with
       const layoutData = branches.map(branch => ({
         id: branch.id,
         name: branch.name || 'Unnamed',
         depth: branch.depth,
-        layout: branch.metadata?.layout || null
+        layout: layout?.branchLayouts[branch.id] || null
       }));
       
       setDebugInfo({
@@ -40,7 +149,7 @@ export function ElkDebug() {
         treeVisualization: visualizeBranchTree(branches, allNodes || [], showDetailedTree)
       });
     }
-  }, [branches, allNodes, loading.layout, showDetailedTree]);
+  }, [branches, allNodes, layout, loading.layout, showDetailedTree]);
 
   const handleRecalculate = async () => {
     try {
@@ -52,6 +161,53 @@ export function ElkDebug() {
     }
   };
 
+  // Calculate every algorithm for the current project without saving any of them
+  const handleCompare = useCallback(async () => {
+    if (!projectId) return;
+    
+    setIsComparing(true);
+    try {
+      const results = await Promise.all(COMPARED_LAYOUTS.map(async ({ type }): Promise<LayoutComparison> => {
+        const startedAt = performance.now();
+        try {
+          // A full recalculation, which is what applying the algorithm stores
+          const response = await fetch(`/api/projects/${projectId}/layout?layoutType=${type}&mode=full`);
+          if (!response.ok) {
+            throw new Error(`Layout request failed with status ${response.status}`);
+          }
+          const result: LayoutResult = await response.json();
+          return { type, result, durationMs: performance.now() - startedAt };
+        } catch (error) {
+          return {
+            type,
+            result: null,
+            durationMs: performance.now() - startedAt,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          };
+        }
+      }));
+      setComparisons(results);
+    } finally {
+      setIsComparing(false);
+    }
+  }, [projectId]);
+
+  const handleApply = async (type: LayoutServiceType) => {
+    try {
+      setIsRecalculating(true);
+      await recalculateLayout(type);
+    } finally {
+      setTimeout(() => setIsRecalculating(false), 500);
+    }
+  };
+
+  useEffect(() => {
+    if (compareMode) {
+      handleCompare();
+    }
+    // Refresh the comparison when the project's branches change
+  }, [compareMode, branches, handleCompare]);
+
   if (!projectId) return null;
 
   return (
@@ -74,8 +230,65 @@ export function ElkDebug() {
         >
           {showDetailedTree ? 'Show Summary' : 'Show Detailed Tree'}
         </Button>
+        
+        <Button
+          onClick={() => setCompareMode(!compareMode)}
+          variant={compareMode ? 'secondary' : 'outline'}
+          size="sm"
+        >
+          {compareMode ? 'Hide Comparison' : 'Compare Algorithms'}
+        </Button>
       </div>
       
+      {compareMode && (
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs font-medium">Layout Comparison</p>
+            <Button onClick={handleCompare} disabled={isComparing} variant="ghost" size="sm" className="h-6 text-xs">
+              {isComparing ? 'Calculating...' : 'Refresh'}
+            </Button>
+          </div>
+          <div className="flex gap-3">
+            {COMPARED_LAYOUTS.map(({ type, label }) => {
+              const comparison = comparisons.find(item => item.type === type);
+              
+              return (
+                <div key={type} className="flex flex-col gap-1 text-[10px]">
+                  <p className="text-xs font-medium">{label}</p>
+                  {comparison?.result ? (
+                    <>
+                      <LayoutPreview result={comparison.result} branches={branches} />
+                      <p className="text-muted-foreground">
+                        {Math.round(comparison.durationMs)} ms · {Math.round(comparison.result.width)}×{Math.round(comparison.result.height)}
+                      </p>
+                      <p className="text-muted-foreground">
+                        Crossings: {countCrossings(comparison.result, branches)}
+                      </p>
+                      <Button
+                        onClick={() => handleApply(type)}
+                        disabled={isRecalculating}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 text-xs"
+                      >
+                        Apply
+                      </Button>
+                    </>
+                  ) : (
+                    <div
+                      className="flex items-center justify-center bg-gray-50 rounded text-muted-foreground"
+                      style={{ width: PREVIEW_WIDTH, height: PREVIEW_HEIGHT }}
+                    >
+                      {comparison?.error || 'Calculating...'}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      
       <div className="text-xs">
         <p className="mb-2">Project ID: {projectId}</p>
         <p className="mb-2">Branch Count: {branches?.length || 0}</p>
@@ -0,0 +1,261 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/components/ui/use-toast";
+import { generationSettingsSchema } from "@/lib/schemas/forms";
+import { GenerationSettings } from "@/lib/types/database";
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+
+// The form edits every setting as text; values are converted and validated on submit
+interface GenerationSettingsFormValues {
+	model: string;
+	temperature: string;
+	max_tokens: string;
+	top_p: string;
+	stop_sequences: string;
+	system_prompt: string;
+}
+
+type SettingsField = keyof GenerationSettingsFormValues;
+
+const EMPTY_VALUES: GenerationSettingsFormValues = {
+	model: "",
+	temperature: "",
+	max_tokens: "",
+	top_p: "",
+	stop_sequences: "",
+	system_prompt: ""
+};
+
+const NUMBER_FIELDS: { name: "temperature" | "max_tokens" | "top_p"; label: string; step: string }[] = [
+	{ name: "temperature", label: "Temperature", step: "0.1" },
+	{ name: "max_tokens", label: "Max tokens", step: "1" },
+	{ name: "top_p", label: "Top P", step: "0.05" }
+];
+
+function toFormValues(settings: GenerationSettings | undefined): GenerationSettingsFormValues {
+	return {
+		model: settings?.model ?? "",
+		temperature: settings?.temperature?.toString() ?? "",
+		max_tokens: settings?.max_tokens?.toString() ?? "",
+		top_p: settings?.top_p?.toString() ?? "",
+		stop_sequences: settings?.stop_sequences?.join("\n") ?? "",
+		system_prompt: settings?.system_prompt ?? ""
+	};
+}
+
+function toSettings(values: GenerationSettingsFormValues): Record<string, unknown> {
+	const settings: Record<string, unknown> = {};
+	const stopSequences = values.stop_sequences.split("\n").filter(sequence => sequence.length > 0);
+
+	if (values.model.trim()) settings.model = values.model.trim();
+	if (values.temperature.trim()) settings.temperature = Number(values.temperature);
+	if (values.max_tokens.trim()) settings.max_tokens = Number(values.max_tokens);
+	if (values.top_p.trim()) settings.top_p = Number(values.top_p);
+	if (stopSequences.length > 0) settings.stop_sequences = stopSequences;
+	if (values.system_prompt.trim()) settings.system_prompt = values.system_prompt;
+
+	return settings;
+}
+
+interface GenerationSettingsFormProps {
+	scope: "project" | "branch";
+	targetId: string;
+	trigger?: React.ReactNode;
+	open?: boolean;
+	onOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * Dialog for editing model and sampling settings of a project, or the overrides of a branch.
+ * Empty fields are left unset so the value is inherited from the project or parent branches.
+ */
+export function GenerationSettingsForm({ scope, targetId, trigger, open: controlledOpen, onOpenChange }: GenerationSettingsFormProps) {
+	const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+	const open = controlledOpen ?? uncontrolledOpen;
+	const setOpen = (value: boolean) => {
+		setUncontrolledOpen(value);
+		onOpenChange?.(value);
+	};
+
+	// Effective settings the branch would otherwise inherit, shown as placeholders
+	const [inherited, setInherited] = useState<GenerationSettingsFormValues>(EMPTY_VALUES);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const form = useForm<GenerationSettingsFormValues>({
+		defaultValues: EMPTY_VALUES
+	});
+
+	const endpoint = scope === "project"
+		? `/api/projects/${targetId}/settings`
+		: `/api/branches/${targetId}/settings`;
+
+	// Load the current settings whenever the dialog opens
+	useEffect(() => {
+		if (!open) return;
+
+		const loadSettings = async () => {
+			try {
+				const response = await fetch(endpoint);
+				if (!response.ok) throw new Error('Failed to load settings');
+				const data = await response.json();
+				form.reset(toFormValues(data.generation));
+				setInherited(toFormValues(data.resolved));
+			} catch (error) {
+				console.error('Failed to load generation settings:', error);
+			}
+		};
+
+		loadSettings();
+	}, [open, endpoint, form]);
+
+	const handleSave = async (values: GenerationSettingsFormValues) => {
+		const parsed = generationSettingsSchema.safeParse(toSettings(values));
+
+		if (!parsed.success) {
+			for (const [field, messages] of Object.entries(parsed.error.flatten().fieldErrors)) {
+				form.setError(field as SettingsField, { message: messages?.[0] });
+			}
+			return;
+		}
+
+		setIsSaving(true);
+		try {
+			const response = await fetch(endpoint, {
+				method: 'PUT',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ generation: parsed.data })
+			});
+
+			if (!response.ok) throw new Error('Failed to update settings');
+
+			toast({
+				title: 'Settings saved',
+				description: scope === "project"
+					? 'Generation settings apply to every branch without overrides'
+					: 'Branch overrides have been saved',
+			});
+			setOpen(false);
+		} catch (error) {
+			console.error('Failed to update generation settings:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to save settings. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			{trigger && <DialogTrigger asChild>{trigger}</DialogTrigger>}
+			<DialogContent className="max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+				<DialogHeader>
+					<DialogTitle>{scope === "project" ? "Model Settings" : "Branch Model Overrides"}</DialogTitle>
+					<DialogDescription>
+						{scope === "project"
+							? "Defaults used for every branch in this project."
+							: "Leave a field empty to inherit it from the parent branches and the project."}
+					</DialogDescription>
+				</DialogHeader>
+				<Form {...form}>
+					<form onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+						<FormField
+							control={form.control}
+							name="model"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Model</FormLabel>
+									<FormControl>
+										<Input placeholder={inherited.model || "Provider default"} {...field} />
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<div className="grid grid-cols-3 gap-3">
+							{NUMBER_FIELDS.map(({ name, label, step }) => (
+								<FormField
+									key={name}
+									control={form.control}
+									name={name}
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>{label}</FormLabel>
+											<FormControl>
+												<Input type="number" step={step} placeholder={inherited[name] || "Default"} {...field} />
+											</FormControl>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+							))}
+						</div>
+
+						<FormField
+							control={form.control}
+							name="stop_sequences"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Stop sequences</FormLabel>
+									<FormControl>
+										<Textarea
+											placeholder={inherited.stop_sequences || "One per line"}
+											className="min-h-[60px]"
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<FormField
+							control={form.control}
+							name="system_prompt"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>System prompt</FormLabel>
+									<FormControl>
+										<Textarea
+											placeholder={inherited.system_prompt || "Default Subway AI prompt"}
+											className="min-h-[120px]"
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<Button type="submit" disabled={isSaving}>
+							{isSaving ? "Saving..." : "Save Settings"}
+						</Button>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	);
+}
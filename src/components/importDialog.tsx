@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ImportResult } from "@/lib/import/types";
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (result: ImportResult) => void;
+}
+
+const SOURCE_LABELS: Record<ImportResult["source"], string> = {
+  subway: "Subway AI export",
+  chatgpt: "ChatGPT export",
+  claude: "Claude export",
+};
+
+export function ImportDialog({ isOpen, onClose, onImported }: ImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setError(null);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/projects/import", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok && !data.imported) {
+        throw new Error(data.error || `Import failed: ${response.status}`);
+      }
+
+      setResult(data);
+      if (data.imported.length > 0) {
+        onImported(data);
+      }
+    } catch (error) {
+      console.error("Error importing projects:", error);
+      setError(error instanceof Error ? error.message : "Import failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Import Projects</DialogTitle>
+            <DialogDescription>
+              Upload a Subway AI JSON export, ChatGPT&apos;s conversations.json or a Claude export.
+              Each conversation becomes a project, with edits and regenerations as branches.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="import-file">Export file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setError(null);
+                  setResult(null);
+                }}
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {result && (
+              <div className="rounded-md border bg-muted/20 p-3 text-sm space-y-2">
+                <p>
+                  Imported {result.imported.length} project{result.imported.length === 1 ? "" : "s"} from
+                  a {SOURCE_LABELS[result.source]}.
+                </p>
+                {result.failed.length > 0 && (
+                  <div>
+                    <p className="text-destructive">
+                      {result.failed.length} conversation{result.failed.length === 1 ? "" : "s"} could not be imported:
+                    </p>
+                    <ul className="mt-1 max-h-32 overflow-y-auto text-xs text-muted-foreground list-disc pl-4">
+                      {result.failed.map((failure, index) => (
+                        <li key={index}>
+                          {failure.title}: {failure.error}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              {result ? "Close" : "Cancel"}
+            </Button>
+            <Button type="submit" disabled={!file || isSubmitting}>
+              {isSubmitting ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,7 +18,7 @@
  * the ConversationContext for data management and transformations.
  */
 
-import { useCallback, useEffect, useState, useMemo } from 'react';
+import { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import ReactFlow, {
   Background,
   Controls,
@@ -28,15 +28,18 @@ import ReactFlow, {
   Node,
   NodeProps,
   Position,
+  ReactFlowInstance,
   useEdgesState,
   useNodesState,
   useReactFlow,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import { Branch } from '@/lib/types/database';
-import { GitBranch, MessageSquare, Train, RefreshCw, Bug, MoreHorizontal, PenLine, Trash2, Info, GitMerge, X } from 'lucide-react';
+import { formatCost } from '@/lib/llm/pricing';
+import { GitBranch, MessageSquare, Train, RefreshCw, Bug, MoreHorizontal, PenLine, Trash2, Info, GitMerge, SlidersHorizontal, X, Download, Pin, PinOff } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useConversation,  } from '@/lib/contexts/ConversationContext';
+import { MAP_CENTER_X, MAP_X_SCALE } from '@/lib/layout/stationLayout';
 import { ElkDebug } from './elk-debug';
 import {
   Popover,
@@ -55,6 +58,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/components/ui/use-toast";
+import { GenerationSettingsForm } from "@/components/forms/generationSettingsForm";
 
 
 // Define props interface
@@ -145,6 +149,15 @@ function BranchPointNode({ data }: NodeProps) {
         
         const position = direction === 'right' ? Position.Right : Position.Left;
         
+        // Spread handles evenly along the side they leave from
+        const sideBranches = childBranches.filter((other: { direction: string }, otherIndex: number) => {
+          const otherDirection = other.direction === 'auto'
+            ? (otherIndex % 2 === 0 ? 'right' : 'left')
+            : other.direction;
+          return otherDirection === direction;
+        });
+        const sideIndex = sideBranches.indexOf(branch);
+        
         return (
       <Handle 
             key={branch.handleId || `branch-${index}`}
@@ -159,9 +172,7 @@ function BranchPointNode({ data }: NodeProps) {
           borderColor: 'white',
               [direction === 'right' ? 'right' : 'left']: '-4px',
               // For multiple handles on the same side, offset them slightly
-              top: hasMultipleChildren 
-                ? `${40 + (index * 15)}%` 
-                : '50%',
+              top: `${((sideIndex + 1) / (sideBranches.length + 1)) * 100}%`,
           transform: 'translateY(-50%)',
               zIndex: 1,
               opacity: branch.isOnActivePath ? 1 : 0.75
@@ -178,29 +189,58 @@ function BranchManagementMenu({
   branchId, 
   branchName, 
   color, 
+  isPinned,
   onClose 
 }: { 
   branchId: string, 
   branchName: string, 
   color: string,
+  isPinned?: boolean,
   onClose: () => void
 }) {
   const [activeTab, setActiveTab] = useState<'rename' | 'notes' | 'merge' | null>(null);
   const [newName, setNewName] = useState(branchName);
   const [notes, setNotes] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
   // Get conversation context for branch operations
   const { 
     fetchData,
     recalculateLayout,
+    layoutType,
+    resetBranchLayout,
     switchBranch,
     currentBranchId
   } = useConversation();
 
   // Get the project id
   const projectId = typeof window !== 'undefined' ? localStorage.getItem('currentProjectId') : null;
-  
+
+  // Load the current notes when the notes tab is opened
+  useEffect(() => {
+    if (activeTab !== 'notes') return;
+
+    let cancelled = false;
+    const loadNotes = async () => {
+      try {
+        const response = await fetch(`/api/branches/${branchId}/notes`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled && data.notes) {
+          setNotes(data.notes.content);
+        }
+      } catch (error) {
+        console.error('Error loading branch notes:', error);
+      }
+    };
+
+    loadNotes();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, branchId]);
+
   const handleRename = async () => {
     if (!newName.trim() || newName === branchName) {
       onClose();
@@ -225,9 +265,9 @@ function BranchManagementMenu({
         throw new Error('Failed to rename branch');
       }
       
-      // Refresh data
+      // Refresh data, keeping the other lines where they are
       await fetchData();
-      await recalculateLayout();
+      await recalculateLayout(layoutType, 'incremental');
       
       toast({
         title: 'Branch renamed',
@@ -246,6 +286,28 @@ function BranchManagementMenu({
     }
   };
   
+  const handleResetLayout = async () => {
+    setIsLoading(true);
+    try {
+      await resetBranchLayout(branchId);
+      
+      toast({
+        title: 'Layout reset',
+        description: `Branch "${branchName}" is placed automatically again`,
+      });
+    } catch (error) {
+      console.error('Error resetting branch layout:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to reset the branch layout. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+      onClose();
+    }
+  };
+
   const handleDelete = async () => {
     // Check if this is the current branch, if so prevent deletion
     if (branchId === currentBranchId) {
@@ -273,9 +335,9 @@ function BranchManagementMenu({
         throw new Error('Failed to delete branch');
       }
       
-      // Refresh data
+      // Refresh data, keeping the other lines where they are
       await fetchData();
-      await recalculateLayout();
+      await recalculateLayout(layoutType, 'incremental');
       
       toast({
         title: 'Branch deleted',
@@ -360,9 +422,9 @@ function BranchManagementMenu({
       // Get the response data - may contain the merged conversation
       const data = await response.json();
       
-      // Refresh data
+      // Refresh data, keeping the other lines where they are
       await fetchData();
-      await recalculateLayout();
+      await recalculateLayout(layoutType, 'incremental');
       
       // Switch to main branch if available
       if (data.mainBranchId) {
@@ -449,6 +511,36 @@ function BranchManagementMenu({
             <div className="text-[10px] text-gray-500">Combine with main</div>
           </Button>
           
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex flex-col items-start justify-start gap-1 h-auto py-4 px-3 border border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+            onClick={() => setIsSettingsOpen(true)}
+            disabled={isLoading}
+          >
+            <div className="flex items-center gap-2">
+              <SlidersHorizontal size={14} className="text-amber-500" />
+              <div className="text-xs font-medium text-gray-900">Model</div>
+            </div>
+            <div className="text-[10px] text-gray-500">Generation settings</div>
+          </Button>
+          
+          {isPinned && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex flex-col items-start justify-start gap-1 h-auto py-4 px-3 border border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+              onClick={handleResetLayout}
+              disabled={isLoading}
+            >
+              <div className="flex items-center gap-2">
+                <PinOff size={14} className="text-sky-500" />
+                <div className="text-xs font-medium text-gray-900">Auto Layout</div>
+              </div>
+              <div className="text-[10px] text-gray-500">Reset to auto layout</div>
+            </Button>
+          )}
+          
           <Button
             variant="outline"
             size="sm"
@@ -465,6 +557,16 @@ function BranchManagementMenu({
         </div>
       )}
       
+      <GenerationSettingsForm
+        scope="branch"
+        targetId={branchId}
+        open={isSettingsOpen}
+        onOpenChange={(open) => {
+          setIsSettingsOpen(open);
+          if (!open) onClose();
+        }}
+      />
+      
       {/* Rename interface */}
       {activeTab === 'rename' && (
         <div className="space-y-3">
@@ -681,7 +783,7 @@ function BranchRootNode({ data }: NodeProps) {
           boxShadow: data.isActive || hovered ? `0 0 8px rgba(${hexToRgb(data.color)}, 0.5)` : undefined,
           zIndex: showMenu ? 1000 : 1,
         }}
-        title={`Manage branch: ${data.branchName || 'Branch'}`}
+        title={`Manage branch: ${data.branchName || 'Branch'} (drag to move the line)`}
         onClick={(e) => {
           e.stopPropagation();
           setShowMenu(!showMenu);
@@ -705,6 +807,17 @@ function BranchRootNode({ data }: NodeProps) {
         {isRightBranch ? '→' : '←'}
       </div>
       
+      {/* Cost of the answers generated on this line */}
+      {data.usage && data.usage.message_count > 0 && (
+        <div
+          className="absolute bottom-full mb-1.5 px-1.5 py-0.5 rounded-full bg-white border text-[9px] font-medium whitespace-nowrap shadow-sm"
+          style={{ borderColor: data.color, color: data.color }}
+          title={`${data.usage.input_tokens.toLocaleString()} input / ${data.usage.output_tokens.toLocaleString()} output tokens over ${data.usage.message_count} answer${data.usage.message_count === 1 ? '' : 's'}${data.usage.unpriced_message_count > 0 ? ` (${data.usage.unpriced_message_count} without a known price)` : ''}`}
+        >
+          {formatCost(data.usage.cost_usd)}
+        </div>
+      )}
+      
         {/* Only render the left handle if this is a right branch (connects from the left) */}
         {isRightBranch && (
       <Handle 
@@ -773,6 +886,17 @@ function BranchRootNode({ data }: NodeProps) {
       {data.branchName && (
         <div className="absolute top-full mt-1 text-[11px] whitespace-nowrap font-semibold" style={{ color: data.color }}>
           {data.branchName}
+          {data.isPinned && (
+            <span className="ml-1 inline-flex items-center" title="Pinned where it was dragged">
+              <Pin size={9} />
+            </span>
+          )}
+          {data.isMerged && (
+            <span className="ml-1 inline-flex items-center gap-0.5 text-[9px] font-medium text-purple-600">
+              <GitMerge size={9} />
+              merged
+            </span>
+          )}
         </div>
       )}
     </div>
@@ -795,6 +919,7 @@ function BranchRootNode({ data }: NodeProps) {
             branchId={data.branchId} 
             branchName={data.branchName || 'Branch'} 
             color={data.color}
+            isPinned={data.isPinned}
             onClose={() => setShowMenu(false)}
           />
         </div>
@@ -851,6 +976,7 @@ function StationNode({ data, selected }: NodeProps) {
         "px-4 py-3 rounded-lg border-2 flex flex-col bg-white shadow-md transition-all duration-300",
         isActive ? "shadow-lg scale-110 ring-2 ring-offset-1" : "hover:shadow-lg hover:scale-105",
         selected ? "ring-2 ring-offset-2 ring-primary" : "",
+        data.isFocused ? "ring-4 ring-offset-2 ring-primary/70 animate-pulse" : "",
         !hasUserContent && !hasAssistantContent ? "opacity-70" : "",
         "cursor-pointer select-none"
       )}
@@ -1004,11 +1130,15 @@ export function Minimap({ onSelectNode }: MinimapProps) {
     projectId,
     currentBranchId,
     branches,
+    layout,
+    layoutType,
     switchBranch,
     fetchData,
     recalculateLayout,
+    pinBranch,
     getNodesForReactFlow,
-    loading
+    loading,
+    focusRequest
   } = useConversation();
 
   // Memoize nodeTypes to prevent recreation on each render
@@ -1025,6 +1155,15 @@ export function Minimap({ onSelectNode }: MinimapProps) {
   const [error, setError] = useState<string | null>(null);
   const [showBranchLabels, setShowBranchLabels] = useState(false);
   const [showDebugPanel, setShowDebugPanel] = useState(false);
+  const flowInstanceRef = useRef<ReactFlowInstance | null>(null);
+  const centeredFocusRef = useRef<number | null>(null);
+  
+  // Line being dragged: the branch, where the drag started and where its nodes were
+  const dragRef = useRef<{
+    branchId: string;
+    startX: number;
+    origins: Map<string, { x: number; y: number }>;
+  } | null>(null);
   
   
   // Update nodes and edges when data changes
@@ -1042,6 +1181,22 @@ export function Minimap({ onSelectNode }: MinimapProps) {
     }
   }, [getNodesForReactFlow, setNodes, setEdges]);
   
+  // Center the map on a focused station, e.g. a search result
+  useEffect(() => {
+    if (!focusRequest || !flowInstanceRef.current) return;
+    if (centeredFocusRef.current === focusRequest.requestedAt) return;
+    
+    const focusedNode = nodes.find(node => node.type === 'stationNode' && node.data.isFocused);
+    if (!focusedNode) return;
+    
+    centeredFocusRef.current = focusRequest.requestedAt;
+    flowInstanceRef.current.setCenter(
+      focusedNode.position.x + (focusedNode.data.calculatedWidth || 140) / 2,
+      focusedNode.position.y + 40,
+      { zoom: 1, duration: 600 }
+    );
+  }, [focusRequest, nodes]);
+  
 
   
   // Handle node selection
@@ -1062,6 +1217,74 @@ export function Minimap({ onSelectNode }: MinimapProps) {
     }
   }, [onSelectNode, switchBranch, currentBranchId]);
   
+  // Start dragging a branch line; lines branching off it move along
+  const onNodeDragStart = useCallback((event: React.MouseEvent, node: Node) => {
+    const branchId: string | undefined = node.data.branchId;
+    if (!branchId) return;
+    
+    const movingBranches = new Set([branchId]);
+    let added = true;
+    while (added) {
+      added = false;
+      branches.forEach(branch => {
+        if (branch.parent_branch_id && movingBranches.has(branch.parent_branch_id) && !movingBranches.has(branch.id)) {
+          movingBranches.add(branch.id);
+          added = true;
+        }
+      });
+    }
+    
+    const origins = new Map<string, { x: number; y: number }>();
+    nodes.forEach(n => {
+      if (movingBranches.has(n.data.branchId)) {
+        origins.set(n.id, { ...n.position });
+      }
+    });
+    dragRef.current = { branchId, startX: node.position.x, origins };
+  }, [branches, nodes]);
+  
+  // Lines only move sideways, stations keep their place along the line
+  const onNodeDrag = useCallback((event: React.MouseEvent, node: Node) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    
+    const dx = node.position.x - drag.startX;
+    setNodes(current => current.map(n => {
+      const origin = drag.origins.get(n.id);
+      return origin ? { ...n, position: { x: origin.x + dx, y: origin.y } } : n;
+    }));
+  }, [setNodes]);
+  
+  // Pin the line at its new offset from the parent line
+  const onNodeDragStop = useCallback(async (event: React.MouseEvent, node: Node) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    
+    const dx = node.position.x - drag.startX;
+    const branch = branches.find(b => b.id === drag.branchId);
+    const branchLayout = layout?.branchLayouts[drag.branchId];
+    const parentLayout = branch?.parent_branch_id ? layout?.branchLayouts[branch.parent_branch_id] : undefined;
+    if (Math.abs(dx) < 1 || !branchLayout || !parentLayout) {
+      setNodes(getNodesForReactFlow().nodes);
+      return;
+    }
+    
+    const lineX = MAP_CENTER_X + branchLayout.x * MAP_X_SCALE + dx;
+    const parentX = MAP_CENTER_X + parentLayout.x * MAP_X_SCALE;
+    try {
+      await pinBranch(drag.branchId, lineX - parentX);
+    } catch (error) {
+      console.error('Error pinning branch:', error);
+      setNodes(getNodesForReactFlow().nodes);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the branch position. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [branches, layout, pinBranch, getNodesForReactFlow, setNodes]);
+  
   // Loading state with subway-themed animation
   if (loading.data && nodes.length === 0) {
     return (
@@ -1210,6 +1433,32 @@ export function Minimap({ onSelectNode }: MinimapProps) {
         >
           <Bug size={16} />
         </button>
+        
+        {/* Download the map as an image */}
+        {projectId && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                className="bg-white p-2 rounded-md shadow-sm border border-gray-200 text-xs text-muted-foreground hover:bg-gray-50 transition-colors"
+                title="Download map"
+              >
+                <Download size={16} />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem asChild>
+                <a href={`/api/projects/${projectId}/map?format=svg&layoutType=${layoutType}`} download>
+                  Download map as SVG
+                </a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={`/api/projects/${projectId}/map?format=png&layoutType=${layoutType}`} download>
+                  Download map as PNG
+                </a>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
       
       {/* Branch legend toggle button */}
@@ -1268,13 +1517,19 @@ export function Minimap({ onSelectNode }: MinimapProps) {
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onNodeClick={onNodeClick}
+        onNodeDragStart={onNodeDragStart}
+        onNodeDrag={onNodeDrag}
+        onNodeDragStop={onNodeDragStop}
         nodeTypes={memoizedNodeTypes}
+        onInit={(instance) => { flowInstanceRef.current = instance; }}
         fitView
         minZoom={0.2}
         maxZoom={1.5}
         defaultViewport={{ x: 0, y: 0, zoom: 0.8 }}
         proOptions={{ hideAttribution: true }}
+        // Only lines other than the main line can be dragged, the nodes opt in themselves
         nodesDraggable={false}
+        nodeDragThreshold={4}
         nodesFocusable={true}
         elementsSelectable={true}
         onlyRenderVisibleElements={true} // Performance optimization for large maps
@@ -0,0 +1,209 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useConversation } from "@/lib/contexts/ConversationContext";
+import { SearchResult } from "@/lib/types/database";
+import { cn } from "@/lib/utils";
+import { Bot, Loader2, Search, User } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Search palette for finding messages across all branches of the current project.
+ * Opens with Ctrl+K (Cmd+K on macOS); choosing a result switches to its branch and
+ * brings the station into view.
+ */
+export function SearchPalette() {
+	const { projectId, focusNode, getBranchColor } = useConversation();
+	const [open, setOpen] = useState(false);
+	const [searchText, setSearchText] = useState("");
+	const [results, setResults] = useState<SearchResult[]>([]);
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const [isSearching, setIsSearching] = useState(false);
+	const listRef = useRef<HTMLDivElement>(null);
+
+	// Global shortcut
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+				event.preventDefault();
+				setOpen(prev => !prev);
+			}
+		};
+
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, []);
+
+	// Search as the user types
+	useEffect(() => {
+		if (!open || !projectId) return;
+
+		const text = searchText.trim();
+		if (!text) {
+			setResults([]);
+			setIsSearching(false);
+			return;
+		}
+
+		const abortController = new AbortController();
+		setIsSearching(true);
+
+		const timer = setTimeout(async () => {
+			try {
+				const params = new URLSearchParams({ project_id: projectId, q: text });
+				const response = await fetch(`/api/search?${params}`, { signal: abortController.signal });
+				if (!response.ok) throw new Error(`Search failed: ${response.status}`);
+				const data = await response.json();
+				setResults(data.results || []);
+				setSelectedIndex(0);
+			} catch (error) {
+				if (!abortController.signal.aborted) {
+					console.error("Failed to search messages:", error);
+					setResults([]);
+				}
+			} finally {
+				if (!abortController.signal.aborted) {
+					setIsSearching(false);
+				}
+			}
+		}, SEARCH_DEBOUNCE_MS);
+
+		return () => {
+			clearTimeout(timer);
+			abortController.abort();
+		};
+	}, [open, projectId, searchText]);
+
+	// Keep the selected result visible while navigating with the keyboard
+	useEffect(() => {
+		listRef.current
+			?.querySelector(`[data-index="${selectedIndex}"]`)
+			?.scrollIntoView({ block: "nearest" });
+	}, [selectedIndex]);
+
+	const handleOpenChange = (value: boolean) => {
+		setOpen(value);
+		if (!value) {
+			setSearchText("");
+			setResults([]);
+		}
+	};
+
+	const selectResult = (result: SearchResult) => {
+		handleOpenChange(false);
+		focusNode(result.node_id);
+	};
+
+	const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		if (event.key === "ArrowDown") {
+			event.preventDefault();
+			setSelectedIndex(index => Math.min(index + 1, results.length - 1));
+		} else if (event.key === "ArrowUp") {
+			event.preventDefault();
+			setSelectedIndex(index => Math.max(index - 1, 0));
+		} else if (event.key === "Enter" && results[selectedIndex]) {
+			event.preventDefault();
+			selectResult(results[selectedIndex]);
+		}
+	};
+
+	return (
+		<>
+			<Button
+				variant="outline"
+				size="sm"
+				onClick={() => setOpen(true)}
+				className="flex items-center gap-2 text-muted-foreground"
+				title="Search messages (Ctrl+K)"
+				disabled={!projectId}
+			>
+				<Search className="h-4 w-4" />
+				<span className="hidden lg:inline">Search</span>
+				<kbd className="hidden lg:inline rounded border bg-muted px-1 text-[10px] font-medium">Ctrl K</kbd>
+			</Button>
+
+			<Dialog open={open} onOpenChange={handleOpenChange}>
+				<DialogContent className="sm:max-w-[600px] p-0 gap-0">
+					<DialogHeader className="sr-only">
+						<DialogTitle>Search messages</DialogTitle>
+						<DialogDescription>Find messages across every branch of this project.</DialogDescription>
+					</DialogHeader>
+
+					<div className="flex items-center gap-2 border-b px-3">
+						<Search className="h-4 w-4 text-muted-foreground shrink-0" />
+						<Input
+							autoFocus
+							value={searchText}
+							onChange={(e) => setSearchText(e.target.value)}
+							onKeyDown={handleInputKeyDown}
+							placeholder='Search messages, e.g. postgres "connection pool" -mysql'
+							className="border-0 shadow-none focus-visible:ring-0 h-12"
+						/>
+						{isSearching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground shrink-0" />}
+					</div>
+
+					<div ref={listRef} className="max-h-[60vh] overflow-y-auto p-1">
+						{searchText.trim() && !isSearching && results.length === 0 && (
+							<p className="px-3 py-6 text-center text-sm text-muted-foreground">No messages found.</p>
+						)}
+
+						{results.map((result, index) => {
+							const color = result.branch_color || getBranchColor(result.branch_id);
+							const isUser = result.type === "user-message";
+
+							return (
+								<button
+									key={result.node_id}
+									type="button"
+									data-index={index}
+									className={cn(
+										"w-full text-left rounded-md px-3 py-2 transition-colors",
+										index === selectedIndex ? "bg-muted" : "hover:bg-muted/50"
+									)}
+									onMouseEnter={() => setSelectedIndex(index)}
+									onClick={() => selectResult(result)}
+								>
+									<div className="flex items-center justify-between gap-2 text-xs text-muted-foreground mb-1">
+										<span className="flex items-center gap-1.5 min-w-0">
+											<span className="h-2 w-2 rounded-full shrink-0" style={{ background: color }} />
+											<span className="truncate font-medium" style={{ color }}>
+												{result.branch_name || (result.branch_depth === 0 ? "Main Line" : "Branch")}
+											</span>
+										</span>
+										<span className="flex items-center gap-1 shrink-0">
+											{isUser ? <User className="h-3 w-3" /> : <Bot className="h-3 w-3" />}
+											{isUser ? "You" : "Assistant"}
+											<span className="ml-1">
+												{new Date(result.created_at).toLocaleDateString([], { month: "short", day: "numeric" })}
+											</span>
+										</span>
+									</div>
+									<p className="text-sm leading-snug line-clamp-3">
+										{result.snippet.map((part, partIndex) => part.highlighted ? (
+											<mark key={partIndex} className="rounded-sm bg-yellow-200/80 px-0.5 text-foreground">
+												{part.text}
+											</mark>
+										) : (
+											<span key={partIndex}>{part.text}</span>
+										))}
+									</p>
+								</button>
+							);
+						})}
+					</div>
+				</DialogContent>
+			</Dialog>
+		</>
+	);
+}
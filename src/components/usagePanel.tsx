@@ -0,0 +1,123 @@
+"use client";
+
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { useConversation } from "@/lib/contexts/ConversationContext";
+import { formatCost } from "@/lib/llm/pricing";
+import { UsageSummary } from "@/lib/types/database";
+import { useState } from "react";
+
+interface UsagePanelProps {
+	trigger: React.ReactNode;
+}
+
+function formatTokens(tokens: number): string {
+	return tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toLocaleString();
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+	return (
+		<div className="rounded-md border bg-muted/20 px-3 py-2">
+			<div className="text-xs text-muted-foreground">{label}</div>
+			<div className="text-lg font-semibold">{value}</div>
+		</div>
+	);
+}
+
+/**
+ * Dialog showing the token usage and estimated cost of the current project, in total and
+ * per branch, so the most expensive lines of exploration stand out.
+ */
+export function UsagePanel({ trigger }: UsagePanelProps) {
+	const [open, setOpen] = useState(false);
+	const { usage, branches, getBranchColor, getBranchName, switchBranch } = useConversation();
+
+	const total = usage?.total;
+	const branchRows = Object.entries(usage?.branches || {})
+		.map(([branchId, summary]) => ({ branchId, summary }))
+		.sort((a, b) => b.summary.cost_usd - a.summary.cost_usd || b.summary.output_tokens - a.summary.output_tokens);
+	const mostExpensive = branchRows[0]?.summary.cost_usd || 0;
+
+	const describeUnpriced = (summary: UsageSummary) =>
+		summary.unpriced_message_count > 0
+			? `${summary.unpriced_message_count} answer${summary.unpriced_message_count === 1 ? "" : "s"} from models without a known price are not included in the cost.`
+			: null;
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger asChild>{trigger}</DialogTrigger>
+			<DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
+				<DialogHeader>
+					<DialogTitle>Usage</DialogTitle>
+					<DialogDescription>
+						Tokens and estimated cost of the answers generated in this project, based on list prices.
+					</DialogDescription>
+				</DialogHeader>
+
+				{!total || total.message_count === 0 ? (
+					<p className="text-sm text-muted-foreground py-4">No usage recorded yet.</p>
+				) : (
+					<div className="space-y-4">
+						<div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+							<Stat label="Estimated cost" value={formatCost(total.cost_usd)} />
+							<Stat label="Input tokens" value={formatTokens(total.input_tokens)} />
+							<Stat label="Output tokens" value={formatTokens(total.output_tokens)} />
+							<Stat
+								label="Avg. latency"
+								value={total.average_latency_ms !== null ? `${(total.average_latency_ms / 1000).toFixed(1)}s` : "–"}
+							/>
+						</div>
+
+						{describeUnpriced(total) && (
+							<p className="text-xs text-amber-600">{describeUnpriced(total)}</p>
+						)}
+
+						<div>
+							<h4 className="text-sm font-medium mb-2">By branch</h4>
+							<div className="space-y-1">
+								{branchRows.map(({ branchId, summary }) => {
+									const branch = branches.find(b => b.id === branchId);
+									const color = getBranchColor(branchId);
+									const share = mostExpensive > 0 ? summary.cost_usd / mostExpensive : 0;
+
+									return (
+										<button
+											key={branchId}
+											type="button"
+											className="w-full text-left rounded-md px-2 py-1.5 hover:bg-muted/50 transition-colors"
+											onClick={() => {
+												switchBranch(branch?.depth === 0 ? null : branchId);
+												setOpen(false);
+											}}
+										>
+											<div className="flex items-center justify-between gap-2 text-sm">
+												<span className="flex items-center gap-2 min-w-0">
+													<span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ background: color }} />
+													<span className="truncate">{getBranchName(branchId)}</span>
+												</span>
+												<span className="flex items-center gap-3 shrink-0 text-xs text-muted-foreground">
+													<span>{summary.message_count} answer{summary.message_count === 1 ? "" : "s"}</span>
+													<span>{formatTokens(summary.input_tokens + summary.output_tokens)} tokens</span>
+													<span className="font-medium text-foreground w-14 text-right">{formatCost(summary.cost_usd)}</span>
+												</span>
+											</div>
+											<div className="mt-1 h-1 rounded-full bg-muted overflow-hidden">
+												<div className="h-full rounded-full" style={{ width: `${share * 100}%`, background: color }} />
+											</div>
+										</button>
+									);
+								})}
+							</div>
+						</div>
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
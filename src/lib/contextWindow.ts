@@ -0,0 +1,179 @@
+import { HistoryNode, normalizeMessages, toMessages } from '@/lib/conversationHistory';
+import { query } from '@/lib/db';
+import { LLMMessage, LLMProvider } from '@/lib/llm/types';
+import { ContextSummary, ContextSummaryUsage, MessageContextInfo } from '@/lib/types/database';
+
+// Token budget for the conversation history sent to the model
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 24000;
+
+// Number of most recent messages that are always sent verbatim
+export const MIN_RECENT_MESSAGES = 4;
+
+// Share of the budget reserved for recent messages; the rest is left for the summary
+const RECENT_BUDGET_SHARE = 0.75;
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a long conversation between a user and an assistant so the conversation can continue without the full transcript.
+
+Update the summary with the new messages. Keep facts, decisions, constraints, open questions and anything the user asked to remember. Be concise and write in plain prose.`;
+
+export interface ContextWindowResult {
+	messages: LLMMessage[];
+	context: MessageContextInfo;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ *
+ * Uses the common four-characters-per-token approximation, which is close enough for
+ * budgeting across providers without shipping a tokenizer.
+ */
+export function estimateTokens(text: string | null | undefined): number {
+	return Math.ceil((text || '').length / 4);
+}
+
+/**
+ * Estimate the number of tokens of a message node
+ */
+export function estimateNodeTokens(node: Pick<HistoryNode, 'message_text'>): number {
+	// Small per-message overhead for role markers
+	return estimateTokens(node.message_text) + 4;
+}
+
+/**
+ * Fit a conversation history into the token budget
+ *
+ * The most recent messages are kept verbatim. When the full history does not fit, the
+ * older ancestors are replaced by a rolling summary cached in the metadata of the last
+ * summarized node, so later requests only summarize messages added since then.
+ * @param nodes History ordered from the oldest message to the newest
+ * @param provider Provider used to write summaries
+ * @param budget Maximum estimated tokens for the history
+ */
+export async function fitToContextWindow(
+	nodes: HistoryNode[],
+	provider: LLMProvider,
+	budget: number = DEFAULT_CONTEXT_TOKEN_BUDGET
+): Promise<ContextWindowResult> {
+	const totalTokens = nodes.reduce((sum, node) => sum + estimateNodeTokens(node), 0);
+
+	if (totalTokens <= budget) {
+		return {
+			messages: normalizeMessages(toMessages(nodes)),
+			context: { estimated_tokens: totalTokens, summarized_node_ids: [] }
+		};
+	}
+
+	// Keep recent messages verbatim, walking back from the newest
+	const recentBudget = Math.floor(budget * RECENT_BUDGET_SHARE);
+	let recentTokens = 0;
+	let splitIndex = nodes.length;
+
+	while (splitIndex > 0) {
+		const tokens = estimateNodeTokens(nodes[splitIndex - 1]);
+		const keptCount = nodes.length - splitIndex;
+		if (keptCount >= MIN_RECENT_MESSAGES && recentTokens + tokens > recentBudget) break;
+		recentTokens += tokens;
+		splitIndex--;
+	}
+
+	const olderNodes = nodes.slice(0, splitIndex);
+	const recentNodes = nodes.slice(splitIndex);
+
+	if (olderNodes.length === 0) {
+		return {
+			messages: normalizeMessages(toMessages(recentNodes)),
+			context: { estimated_tokens: recentTokens, summarized_node_ids: [] }
+		};
+	}
+
+	const summarizedNodeIds = olderNodes.map(node => node.id);
+
+	try {
+		const { summary, usage } = await getRollingSummary(olderNodes, provider);
+		const summaryMessage: LLMMessage = {
+			role: 'user',
+			content: `Summary of the earlier conversation:\n\n${summary.text}`
+		};
+
+		return {
+			messages: normalizeMessages([summaryMessage, ...toMessages(recentNodes)]),
+			context: {
+				estimated_tokens: recentTokens + estimateTokens(summaryMessage.content),
+				summarized_node_ids: summarizedNodeIds,
+				summary_node_id: olderNodes[olderNodes.length - 1].id,
+				...(usage ? { summary_usage: usage } : {})
+			}
+		};
+	} catch (error) {
+		// Without a summary, fall back to sending only the recent messages
+		console.error('Failed to summarize conversation history:', error);
+		return {
+			messages: normalizeMessages(toMessages(recentNodes)),
+			context: { estimated_tokens: recentTokens, summarized_node_ids: summarizedNodeIds }
+		};
+	}
+}
+
+/**
+ * Get a summary covering all given nodes, reusing and extending the latest cached summary
+ * @param nodes Nodes to summarize, ordered from the oldest
+ * @param provider Provider used to write the summary
+ * @returns The summary, with the tokens spent on it when it had to be written
+ */
+async function getRollingSummary(
+	nodes: HistoryNode[],
+	provider: LLMProvider
+): Promise<{ summary: ContextSummary; usage: ContextSummaryUsage | null }> {
+	const lastNode = nodes[nodes.length - 1];
+	if (lastNode.metadata?.context_summary) {
+		return { summary: lastNode.metadata.context_summary, usage: null };
+	}
+
+	// Find the newest node that already has a summary of everything before it
+	let cachedIndex = -1;
+	for (let i = nodes.length - 2; i >= 0; i--) {
+		if (nodes[i].metadata?.context_summary) {
+			cachedIndex = i;
+			break;
+		}
+	}
+
+	const previousSummary = cachedIndex >= 0 ? nodes[cachedIndex].metadata?.context_summary : undefined;
+	const newNodes = nodes.slice(cachedIndex + 1);
+
+	const transcript = newNodes
+		.map(node => `${node.type === 'user-message' ? 'User' : 'Assistant'}: ${node.message_text || ''}`)
+		.join('\n\n');
+
+	const completion = await provider.complete({
+		system: SUMMARY_SYSTEM_PROMPT,
+		messages: [{
+			role: 'user',
+			content: previousSummary
+				? `Current summary:\n\n${previousSummary.text}\n\nNew messages:\n\n${transcript}`
+				: `Messages:\n\n${transcript}`
+		}]
+	});
+
+	if (!completion.text.trim()) {
+		throw new Error('Provider returned an empty summary');
+	}
+
+	const summary: ContextSummary = {
+		text: completion.text.trim(),
+		node_count: nodes.length,
+		created_at: new Date().toISOString()
+	};
+
+	// Cache the summary on the last node it covers
+	await query(`
+		UPDATE timeline_nodes
+		SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('context_summary', $1::jsonb)
+		WHERE id = $2
+	`, [JSON.stringify(summary), lastNode.id]);
+
+	return {
+		summary,
+		usage: completion.usage ? { model: completion.model, ...completion.usage } : null
+	};
+}
@@ -1,11 +1,23 @@
 "use client";
-import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
-import { Branch, TimelineNode, NodeType } from '@/lib/types/database';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { Branch, TimelineNode, NodeType, ProjectChangeEvent, ProjectUsage, UsageSummary } from '@/lib/types/database';
 
 import { useProject } from './ProjectContext';
 import { Edge, Node } from 'reactflow';
 import { v4 as uuidv4 } from 'uuid';
-import { processStreamingResponse } from '@/lib/streaming';
+import { readStreamEvents } from '@/lib/streaming';
+import type { LayoutMode } from '@/lib/layout/incrementalLayoutService';
+import type { LayoutServiceType } from '@/lib/layout/layoutServiceFactory';
+import {
+  FIRST_CHILD_STATION_OFFSET,
+  FIRST_STATION_OFFSET,
+  getPinnedOffset,
+  MAP_CENTER_X,
+  MAP_X_SCALE,
+  ROOT_Y,
+  STATION_SPACING
+} from '@/lib/layout/stationLayout';
+import type { LayoutResult } from '@/lib/layout/treeBasedLayoutService';
 
 // React Flow node data interfaces
 interface BaseNodeData {
@@ -21,6 +33,9 @@ interface RootNodeData extends BaseNodeData {
 interface BranchRootNodeData extends BaseNodeData {
   branchName: string;
   branchDirection: 'left' | 'right' | 'auto';
+  isMerged?: boolean;
+  isPinned?: boolean;
+  usage?: UsageSummary;
 }
 
 interface BranchPointNodeData extends BaseNodeData {
@@ -32,21 +47,10 @@ interface BranchPointNodeData extends BaseNodeData {
     isOnActivePath: boolean;
     handleId?: string;
   }[];
-  leftBranch?: {
-    branchId: string;
-    branchColor: string;
-    branchName: string;
-    isOnActivePath: boolean;
-  };
-  rightBranch?: {
-    branchId: string;
-    branchColor: string;
-    branchName: string;
-    isOnActivePath: boolean;
-  };
 }
 
 interface StationNodeData extends BaseNodeData {
+  isFocused?: boolean;
   userContent: string;
   assistantContent: string;
   timestamp: string;
@@ -91,6 +95,9 @@ interface BranchMapEntry {
   direction?: 'left' | 'right' | 'auto';
 }
 
+// How long a focused message stays highlighted
+const FOCUS_HIGHLIGHT_MS = 4000;
+
 /**
  * ConversationContext
  * 
@@ -109,6 +116,13 @@ interface ConversationContextValue {
   // Data
   branches: Branch[];
   allNodes: TimelineNode[];
+  usage: ProjectUsage | null;
+  
+  // Branch and station positions computed by the layout service, null until loaded
+  layout: LayoutResult | null;
+  
+  // Layout algorithm the map is currently drawn with
+  layoutType: LayoutServiceType;
   
   displayedChatNodes: TimelineNode[];
   
@@ -125,18 +139,27 @@ interface ConversationContextValue {
   streamingContent: string | null;
   streamingParentId: string | null;
   
+  // Message to bring into view, e.g. a search result; `requestedAt` repeats a request
+  focusRequest: { nodeId: string; requestedAt: number } | null;
+  
   // Actions
   fetchData: () => Promise<void>;
-  recalculateLayout: (layoutType?: 'tree' | 'slot') => Promise<void>;
+  recalculateLayout: (layoutType?: LayoutServiceType, mode?: LayoutMode) => Promise<void>;
   switchBranch: (branchId: string | null) => void;
+  focusNode: (nodeId: string) => void;
   createBranch: (params: {
     branchPointNodeId: string;
     name?: string;
     createdBy?: string;
     direction?: 'left' | 'right' | 'auto';
   }) => Promise<string>;
+  pinBranch: (branchId: string, offsetX: number) => Promise<void>;
+  resetBranchLayout: (branchId: string) => Promise<void>;
   updateStreamingContent: (content: string | null) => void;
+  stopGeneration: () => void;
   sendMessage: (text: string) => Promise<void>;
+  regenerateMessage: (assistantMessageId: string, overrides?: { model?: string; temperature?: number }) => Promise<string>;
+  editMessage: (userMessageId: string, text: string) => Promise<string>;
   
   // Utility functions
   getBranchColor: (branchId: string) => string;
@@ -151,12 +174,10 @@ const ConversationContext = createContext<ConversationContextValue | undefined>(
 // Props for the provider component
 interface ConversationProviderProps {
   children: ReactNode;
-  pollingInterval?: number;
 }
 
 export const ConversationProvider: React.FC<ConversationProviderProps> = ({
   children,
-  pollingInterval = 5000,
 }) => {
   // Get project data from ProjectContext
   const { selectedProjectId, mainBranchId, loading: projectLoading } = useProject();
@@ -167,6 +188,11 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
   // Data state
   const [branches, setBranches] = useState<Branch[]>([]);
   const [allNodes, setAllNodes] = useState<TimelineNode[]>([]);
+  const [usage, setUsage] = useState<ProjectUsage | null>(null);
+  const [layout, setLayout] = useState<LayoutResult | null>(null);
+  
+  // Layout algorithm the map is drawn with, the last one recalculated
+  const [layoutType, setLayoutType] = useState<LayoutServiceType>('tree');
   
   // UI state
   const [currentBranchId, setCurrentBranchId] = useState<string | null>(null);
@@ -175,6 +201,19 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingContent, setStreamingContent] = useState<string | null>(null);
   const [streamingParentId, setStreamingParentId] = useState<string | null>(null);
+  // Stored assistant message being streamed, known once the start frame arrives
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  
+  const [focusRequest, setFocusRequest] = useState<{ nodeId: string; requestedAt: number } | null>(null);
+  
+  // Aborts reading the assistant stream in flight, if any; generation continues on the server
+  const abortControllerRef = useRef<AbortController | null>(null);
+  
+  // Assistant message being streamed, and whether Stop was pressed before its id was known
+  const activeGenerationRef = useRef<{ id: string | null; stopRequested: boolean } | null>(null);
+  
+  // Set once in-progress generations were looked for after loading a project
+  const reattachCheckedRef = useRef(false);
   
   // Loading states
   const [loading, setLoading] = useState({
@@ -205,9 +244,16 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
   // Reset state when project changes
   useEffect(() => {
     if (!projectId) return;     
+    // Stop following a stream of the previous project; it keeps generating on the server
+    abortControllerRef.current?.abort();
+    reattachCheckedRef.current = false;
+    
     // Clear state when project changes
     setBranches([]);
     setAllNodes([]);
+    setUsage(null);
+    setLayout(null);
+    setFocusRequest(null);
     
     // Reset to main branch when project changes
     setCurrentBranchId(null);
@@ -263,13 +309,15 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     }
   };
 
-  // Recalculate layout for all branches
-  const recalculateLayout = async (layoutType: 'tree' | 'slot' = 'tree'): Promise<void> => {
+  // Recalculate layout for all branches, or with mode 'incremental' only place new and changed ones
+  // Uses the current algorithm unless another one is given, which then becomes the current one
+  const recalculateLayout = async (type: LayoutServiceType = layoutType, mode: LayoutMode = 'full'): Promise<void> => {
     if (!projectId) return;
     
+    setLayoutType(type);
     setLoading(prev => ({ ...prev, layout: true }));
     try {
-      const response = await fetch(`/api/projects/${projectId}/layout?layoutType=${layoutType}`, {
+      const response = await fetch(`/api/projects/${projectId}/layout?layoutType=${type}&mode=${mode}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -280,8 +328,13 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
         throw new Error(`Failed to recalculate layout: ${response.status}`);
       }
       
-      // Fetch the updated branches which will include the new layout data in metadata
-      await fetchBranches();
+      if (mode === 'incremental') {
+        const { moves } = await response.json();
+        console.log(`Incremental layout moved ${moves.length} branch(es)`, moves);
+      }
+      
+      // Fetch the stored layout, positions are kept in the layout cache
+      await fetchLayout(type);
     } catch (error) {
       console.error('Failed to recalculate layout:', error);
     } finally {
@@ -330,6 +383,127 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     }
   };
 
+  // Latest fetchData for long-lived subscriptions, which must not reconnect on every render
+  const fetchDataRef = useRef(fetchData);
+  fetchDataRef.current = fetchData;
+
+  // Fetch token usage and cost of the project, in total and per branch
+  const fetchUsage = useCallback(async (): Promise<void> => {
+    if (!projectId) return;
+    
+    try {
+      const response = await fetch(`/api/projects/${projectId}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch usage: ${response.status}`);
+      }
+      const projectData = await response.json();
+      setUsage(projectData.usage || null);
+    } catch (error) {
+      console.error('Failed to fetch usage:', error);
+    }
+  }, [projectId]);
+
+  // Refresh usage whenever an answer records its tokens, here or in another tab
+  const recordedUsageKey = useMemo(() => {
+    const recorded = allNodes.filter(node => node.output_tokens != null);
+    return `${recorded.length}:${recorded.reduce((sum, node) => sum + (node.output_tokens || 0), 0)}`;
+  }, [allNodes]);
+
+  useEffect(() => {
+    if (!projectId || projectLoading) return;
+    fetchUsage();
+  }, [projectId, projectLoading, recordedUsageKey, fetchUsage]);
+
+  // Fetch the positions of every branch and station on the map
+  const fetchLayout = useCallback(async (type: LayoutServiceType = layoutType): Promise<void> => {
+    if (!projectId) return;
+    
+    setLoading(prev => ({ ...prev, layout: true }));
+    try {
+      // Served from the layout cache; unchanged layouts are revalidated with their ETag
+      const response = await fetch(`/api/projects/${projectId}/layout?layoutType=${type}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch layout: ${response.status}`);
+      }
+      setLayout(await response.json());
+    } catch (error) {
+      console.error('Failed to fetch layout:', error);
+    } finally {
+      setLoading(prev => ({ ...prev, layout: false }));
+    }
+  }, [projectId, layoutType]);
+
+  // Recompute the layout whenever the map changes shape: a station, branch, direction hint or
+  // pin is added or changed. Streaming text and renames keep the layout as it is.
+  const layoutStructureKey = useMemo(() => {
+    const branchKey = branches
+      .map(branch => `${branch.id}:${branch.metadata?.layout?.direction || 'auto'}:${getPinnedOffset(branch) ?? ''}`)
+      .sort()
+      .join(',');
+    const stationCount = allNodes.filter(node =>
+      node.type === 'user-message' || node.type === 'assistant-message' || node.type === 'branch-point'
+    ).length;
+    return `${branchKey}|${stationCount}`;
+  }, [branches, allNodes]);
+
+  useEffect(() => {
+    if (!projectId || projectLoading || branches.length === 0) return;
+    fetchLayout();
+  }, [projectId, projectLoading, branches.length, layoutStructureKey, fetchLayout]);
+
+  // Apply a node or branch change published by the server
+  const applyProjectChange = useCallback((event: ProjectChangeEvent) => {
+    if (event.entity === 'node') {
+      setAllNodes(prev => {
+        if (event.action === 'deleted') {
+          return prev.filter(node => node.id !== event.id);
+        }
+        const index = prev.findIndex(node => node.id === event.id);
+        if (index === -1) return [...prev, event.data];
+        const next = [...prev];
+        next[index] = event.data;
+        return next;
+      });
+    } else {
+      setBranches(prev => {
+        if (event.action === 'deleted') {
+          return prev.filter(branch => branch.id !== event.id);
+        }
+        const index = prev.findIndex(branch => branch.id === event.id);
+        if (index === -1) return [...prev, event.data];
+        const next = [...prev];
+        next[index] = event.data;
+        return next;
+      });
+    }
+  }, []);
+
+  // Subscribe to changes of the project, including those made in other tabs or by teammates
+  useEffect(() => {
+    if (!projectId || projectLoading) return;
+    
+    const eventSource = new EventSource(`/api/projects/${projectId}/events`);
+    let hasConnected = false;
+    
+    eventSource.addEventListener('ready', () => {
+      // Changes may have been missed while reconnecting, so reload everything once
+      if (hasConnected) {
+        fetchDataRef.current();
+      }
+      hasConnected = true;
+    });
+    
+    eventSource.addEventListener('change', (message) => {
+      try {
+        applyProjectChange(JSON.parse((message as MessageEvent).data));
+      } catch (error) {
+        console.error('Failed to apply project change:', error);
+      }
+    });
+    
+    return () => eventSource.close();
+  }, [projectId, projectLoading, applyProjectChange]);
+
   // Switch to a different branch
   const switchBranch = useCallback((branchId: string | null) => {
     
@@ -339,10 +513,26 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     }
     
     setCurrentBranchId(branchId);
-    
-    // Schedule a refresh of data after switching
-    setTimeout(fetchData, 100);
-  }, [currentBranchId, fetchData]);
+  }, [currentBranchId]);
+
+  // Switch to the branch of a message and bring it into view in the chat and the minimap
+  const focusNode = useCallback((nodeId: string) => {
+    const node = allNodes.find(n => n.id === nodeId);
+    if (!node) return;
+    
+    const branch = branches.find(b => b.id === node.branch_id);
+    switchBranch(branch && branch.depth > 0 ? branch.id : null);
+    setFocusRequest({ nodeId, requestedAt: Date.now() });
+  }, [allNodes, branches, switchBranch]);
+
+  // Focus highlights fade after a moment
+  useEffect(() => {
+    if (!focusRequest) return;
+    const timer = setTimeout(() => {
+      setFocusRequest(prev => prev?.requestedAt === focusRequest.requestedAt ? null : prev);
+    }, FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [focusRequest]);
 
   // Create a new branch
   const createBranch = async (params: {
@@ -376,10 +566,8 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
       if (!response.ok) throw new Error('Failed to create branch');
      
       const result = await response.json();
-      // Calculate layout after new branch is crated
-      await recalculateLayout('slot');
-      // Refresh data after creating branch
-      await fetchData();
+      // Calculate layout after new branch is crated; the new nodes arrive as change events
+      await recalculateLayout(layoutType, 'incremental');
       
       return result.id;
     } catch (error) {
@@ -388,24 +576,225 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     }
   };
 
+  // Pin a branch line at an offset from its parent line, e.g. after dragging it in the minimap
+  const pinBranch = async (branchId: string, offsetX: number): Promise<void> => {
+    const response = await fetch(`/api/branches/${branchId}/pin`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ offsetX })
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to pin branch: ${response.status}`);
+    }
+    
+    // The layout cache was invalidated by the metadata change
+    await fetchBranches();
+    await fetchLayout();
+  };
+
+  // Remove the pin of a branch and let the layout place it and its children again
+  const resetBranchLayout = async (branchId: string): Promise<void> => {
+    const response = await fetch(`/api/branches/${branchId}/pin`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`Failed to reset branch layout: ${response.status}`);
+    }
+    
+    await fetchBranches();
+    await fetchLayout();
+  };
+
   // Simplified updateStreamingContent function
-  const updateStreamingContent = (content: string | null) => {
+  const updateStreamingContent = useCallback((content: string | null) => {
     // If content is null, it means streaming has ended
     if (content === null) {
      
       
-      // Clear streaming state
+      // Clear streaming state; the stored message arrives as a change event
       setIsStreaming(false);
       setStreamingContent(null);
-      
-      // Fetch data to get the real message
-      fetchData();
+      setStreamingMessageId(null);
     } else {
       // Just update the streaming content
       setStreamingContent(content);
     }
+  }, []);
+
+  // Ask the server to stop a generation; the partial answer is kept
+  const requestStop = useCallback((assistantMessageId: string) => {
+    fetch(`/api/messages/${assistantMessageId}/stop`, { method: 'POST' }).catch(error => {
+      console.error('Failed to stop generation:', error);
+    });
+  }, []);
+
+  // Stop the assistant response being generated
+  const stopGeneration = useCallback(() => {
+    const generation = activeGenerationRef.current;
+    if (!generation) return;
+    
+    if (generation.id) {
+      requestStop(generation.id);
+    } else {
+      // Stopped as soon as the start frame tells us which message is generating
+      generation.stopRequested = true;
+    }
+  }, [requestStop]);
+
+  // Read an assistant response stream into the streaming state until it ends
+  const readAssistantStream = useCallback(async (response: Response, abortController: AbortController): Promise<void> => {
+    // Id of the stored assistant message, sent in the start frame
+    let assistantMessageId: string | undefined;
+    let responseText = '';
+    let stopped = false;
+    let errorMessage: string | null = null;
+    
+    try {
+      for await (const event of readStreamEvents(response)) {
+        switch (event.type) {
+          case 'start':
+            assistantMessageId = event.assistant_message_id;
+            setStreamingMessageId(assistantMessageId);
+            if (activeGenerationRef.current) {
+              activeGenerationRef.current.id = assistantMessageId;
+              if (activeGenerationRef.current.stopRequested) {
+                requestStop(assistantMessageId);
+              }
+            }
+            break;
+          case 'delta':
+            responseText += event.text;
+            // Update streaming content as we go
+            setStreamingContent(responseText);
+            break;
+          case 'error':
+            errorMessage = event.message;
+            break;
+          case 'done':
+            stopped = event.stopped;
+            break;
+        }
+      }
+    } catch (error) {
+      if (!abortController.signal.aborted) throw error;
+      // Detached on purpose; the stored message arrives as a change event
+      return;
+    }
+    
+    // Show the final text right away instead of waiting for the change event
+    if (assistantMessageId) {
+      const finalText = responseText;
+      setAllNodes(prev => prev.map(node =>
+        node.id === assistantMessageId
+          ? {
+              ...node,
+              message_text: finalText,
+              ...(stopped ? { metadata: { ...node.metadata, stopped: true } } : {})
+            }
+          : node
+      ));
+    }
+    
+    if (errorMessage !== null) {
+      throw new Error(`Failed to generate response: ${errorMessage}`);
+    }
+  }, [requestStop]);
+
+  // Start following a new assistant stream
+  const beginStreaming = useCallback((parentId: string, assistantMessageId: string | null): AbortController => {
+    setIsStreaming(true);
+    setStreamingContent('');
+    setStreamingParentId(parentId);
+    setStreamingMessageId(assistantMessageId);
+    
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    activeGenerationRef.current = { id: assistantMessageId, stopRequested: false };
+    return abortController;
+  }, []);
+
+  // Stop following the current assistant stream
+  const endStreaming = useCallback((abortController: AbortController) => {
+    if (abortControllerRef.current !== abortController) return;
+    abortControllerRef.current = null;
+    activeGenerationRef.current = null;
+    updateStreamingContent(null);
+  }, [updateStreamingContent]);
+
+  // Request an assistant response to a node and stream it into the UI
+  const requestAssistantResponse = async (parentId: string): Promise<void> => {
+    const abortController = beginStreaming(parentId, null);
+    
+    // The server rebuilds the conversation history from the parent's ancestors
+    const requestPayload = {
+      project_id: projectId,
+      parent_id: parentId,
+      stream: true
+    };
+    
+    try {
+      const assistantResponse = await fetch('/api/messages/assistant', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestPayload),
+        signal: abortController.signal
+      });
+      
+      // Handle streaming response
+      if (assistantResponse.headers.get('content-type')?.includes('text/event-stream')) {
+        await readAssistantStream(assistantResponse, abortController);
+      } else if (!assistantResponse.ok) {
+        // Handle non-streaming response
+        const errorText = await assistantResponse.text();
+        throw new Error(`Server error: ${assistantResponse.status} ${errorText}`);
+      }
+      // Otherwise the stored message arrives as a change event
+    } catch (error) {
+      if (!abortController.signal.aborted) throw error;
+    } finally {
+      endStreaming(abortController);
+    }
   };
 
+  // Follow an assistant message that is still generating, e.g. after a page reload
+  const reattachToGeneration = useCallback(async (assistantMessage: TimelineNode): Promise<void> => {
+    const abortController = beginStreaming(assistantMessage.parent_id || '', assistantMessage.id);
+    
+    try {
+      const streamResponse = await fetch(`/api/messages/${assistantMessage.id}/stream`, {
+        signal: abortController.signal
+      });
+      if (!streamResponse.ok) {
+        throw new Error(`Failed to reattach to stream: ${streamResponse.status}`);
+      }
+      await readAssistantStream(streamResponse, abortController);
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error('Failed to reattach to generation:', error);
+      }
+    } finally {
+      endStreaming(abortController);
+    }
+  }, [beginStreaming, readAssistantStream, endStreaming]);
+
+  // After loading a project, pick up an assistant message that is still being generated
+  useEffect(() => {
+    if (loading.data || isStreaming || reattachCheckedRef.current || allNodes.length === 0) return;
+    reattachCheckedRef.current = true;
+    
+    // An empty answer that was neither stopped nor failed has not been written yet
+    const inProgress = allNodes
+      .filter(node =>
+        node.type === 'assistant-message' &&
+        !node.message_text &&
+        !node.metadata?.stopped &&
+        !node.metadata?.error
+      )
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+    
+    if (inProgress) {
+      reattachToGeneration(inProgress);
+    }
+  }, [loading.data, isStreaming, allNodes, reattachToGeneration]);
+
   // Refactored sendMessage method with simplified streaming approach
   const sendMessage = async (text: string): Promise<void> => {
     if (!projectId) throw new Error('No project selected');
@@ -478,89 +867,153 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
       
       const userMessageId = userMessageData.user_message.id;
       
-      // 2. Refetch data to update UI with user message
-      await fetchData();
+      // 2. Request the assistant response for the new user message
+      await requestAssistantResponse(userMessageId);
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      // Reset streaming state
+      setIsStreaming(false);
+      setStreamingContent(null);
+      setStreamingParentId(null);
+      setStreamingMessageId(null);
+      
+      // Show error in UI
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      console.log(`Error in sendMessage: ${errorMessage}`);
+    }
+  };
+  
+  // Regenerate an assistant response as a new sibling branch from the same user message
+  const regenerateMessage = async (
+    assistantMessageId: string,
+    overrides?: { model?: string; temperature?: number }
+  ): Promise<string> => {
+    if (!projectId) throw new Error('No project selected');
+    
+    const assistantMessage = allNodes.find(node => node.id === assistantMessageId);
+    if (!assistantMessage || assistantMessage.type !== 'assistant-message') {
+      throw new Error('Assistant message not found');
+    }
+    
+    const userMessage = allNodes.find(node => node.id === assistantMessage.parent_id);
+    if (!userMessage) throw new Error('Parent user message not found');
+    
+    try {
+      // Fork at the user message through the regular branch flow
+      const branchResponse = await fetch('/api/branches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          project_id: projectId,
+          parent_branch_id: userMessage.branch_id,
+          branch_point_node_id: userMessage.id,
+          name: overrides?.model ? `Regenerated (${overrides.model})` : 'Regenerated',
+          created_by: 'user',
+          direction: 'auto',
+          regenerated_from: assistantMessageId,
+          ...(overrides && Object.keys(overrides).length > 0 ? { generation: overrides } : {})
+        })
+      });
+      
+      if (!branchResponse.ok) {
+        const errorText = await branchResponse.text();
+        throw new Error(`Failed to create branch: ${errorText}`);
+      }
       
-      // 3. Set streaming flag
-      setIsStreaming(true);
-      setStreamingContent('');
-      setStreamingParentId(userMessageId);
+      const newBranch = await branchResponse.json();
       
-      // 4. Make API call for assistant response with streaming
+      await recalculateLayout(layoutType, 'incremental');
+      switchBranch(newBranch.id);
       
-      // Prepare messages array from displayedChatNodes - only include user and assistant messages
-      const messageHistory = displayedChatNodes
-        .filter(node => node.type === 'user-message' || node.type === 'assistant-message')
-        .map(node => ({
-          role: node.type === 'user-message' ? 'user' : 'assistant',
-          content: node.message_text || ''
-        }));
+      // Generate the alternative answer on the new branch
+      await requestAssistantResponse(newBranch.root_node_id);
       
-      // Add the current user message that we just sent (which may not be in displayedChatNodes yet)
-      messageHistory.push({
-        role: 'user',
-        content: text.trim()
+      return newBranch.id;
+    } catch (error) {
+      console.error('Failed to regenerate message:', error);
+      setIsStreaming(false);
+      setStreamingContent(null);
+      setStreamingParentId(null);
+      setStreamingMessageId(null);
+      throw error;
+    }
+  };
+  
+  // Edit a user message by forking a new branch at its parent with the edited text
+  const editMessage = async (userMessageId: string, text: string): Promise<string> => {
+    if (!projectId) throw new Error('No project selected');
+    if (!text.trim()) throw new Error('Message text cannot be empty');
+    
+    const userMessage = allNodes.find(node => node.id === userMessageId);
+    if (!userMessage || userMessage.type !== 'user-message') {
+      throw new Error('User message not found');
+    }
+    
+    // Fork from the message before the edit, skipping any branch point in between
+    let parentNode = allNodes.find(node => node.id === userMessage.parent_id);
+    while (parentNode?.type === 'branch-point') {
+      const branchPointParentId = parentNode.parent_id;
+      parentNode = allNodes.find(node => node.id === branchPointParentId);
+    }
+    if (!parentNode) throw new Error('Parent of the edited message not found');
+    
+    try {
+      // 1. Fork at the edited message's parent; the original line stays intact
+      const branchResponse = await fetch('/api/branches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          project_id: projectId,
+          parent_branch_id: parentNode.branch_id,
+          branch_point_node_id: parentNode.id,
+          name: 'Edited',
+          created_by: 'user',
+          direction: 'auto',
+          edited_from: userMessageId
+        })
       });
       
-      // Create the request payload explicitly for console.logging
-      const requestPayload = {
-        project_id: projectId,
-        parent_id: userMessageId,
-        messages: messageHistory,
-        stream: true
-      };
+      if (!branchResponse.ok) {
+        const errorText = await branchResponse.text();
+        throw new Error(`Failed to create branch: ${errorText}`);
+      }
       
+      const newBranch = await branchResponse.json();
       
-      const assistantResponse = await fetch('/api/messages/assistant', {
+      // 2. Save the edited text as the first user station of the new branch
+      const userMessageResponse = await fetch('/api/messages', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestPayload)
+        body: JSON.stringify({
+          project_id: projectId,
+          branch_id: newBranch.id,
+          parent_id: newBranch.root_node_id,
+          text: text.trim(),
+          created_by: 'user'
+        })
       });
       
-      // 5. Handle streaming response
-      if (assistantResponse.headers.get('content-type')?.includes('text/event-stream')) {
-        const reader = assistantResponse.body?.getReader();
-        let responseText = '';
-        let done = false;
-        
-        // Reading the stream
-        if (reader) {
-          while (!done) {
-            const { value, done: readerDone } = await reader.read();
-            done = readerDone;
-            
-            if (value) {
-              const chunk = new TextDecoder().decode(value);
-              responseText += chunk;
-              
-              // Update streaming content as we go
-              setStreamingContent(responseText);
-            }
-          }
-          
-          // When streaming is complete, clear state and refetch data
-          updateStreamingContent(null); // This will clear streaming state and fetch data
-        }
-      } else {
-        // Handle non-streaming response
-        if (!assistantResponse.ok) {
-          const errorText = await assistantResponse.text();
-          throw new Error(`Server error: ${assistantResponse.status} ${errorText}`);
-        }
-        
-        // Just refresh data
-        updateStreamingContent(null);
+      if (!userMessageResponse.ok) {
+        const errorText = await userMessageResponse.text();
+        throw new Error(`Failed to save edited message: ${errorText}`);
       }
+      
+      const userMessageData = await userMessageResponse.json();
+      
+      await recalculateLayout(layoutType, 'incremental');
+      switchBranch(newBranch.id);
+      
+      // 3. Request a fresh assistant reply to the edited message
+      await requestAssistantResponse(userMessageData.user_message.id);
+      
+      return newBranch.id;
     } catch (error) {
-      console.error('Failed to send message:', error);
-      // Reset streaming state
+      console.error('Failed to edit message:', error);
       setIsStreaming(false);
       setStreamingContent(null);
       setStreamingParentId(null);
-      
-      // Show error in UI
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      console.log(`Error in sendMessage: ${errorMessage}`);
+      setStreamingMessageId(null);
+      throw error;
     }
   };
   
@@ -692,9 +1145,15 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
         // Recursively build the parent branch path up to the branch point
         const parentPath = getBranchPath(currentBranch.parent_branch_id);
         
-        // Only include parent messages up to the branch point
+        // Only include parent messages up to the message the branch forks from. The branch
+        // point is created when the first branch forks, so it sorts after the messages added
+        // to the parent line before that, e.g. the answer a regenerated answer replaces.
+        const forkIndex = parentPath.findIndex(m => m.id === branchPointNode.parent_id);
         const branchPointIndex = parentPath.findIndex(m => m.id === branchPointNode.id);
-        if (branchPointIndex !== -1) {
+        if (forkIndex !== -1) {
+          console.log(`Including ${forkIndex + 1} nodes from parent branch path`);
+          result.push(...parentPath.slice(0, forkIndex + 1), branchPointNode);
+        } else if (branchPointIndex !== -1) {
           console.log(`Including ${branchPointIndex + 1} nodes from parent branch path`);
           result.push(...parentPath.slice(0, branchPointIndex + 1));
         } else {
@@ -733,8 +1192,10 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
 
    
     
-    // Get the branch path - nodes that should be displayed for the current branch
-    const branchPathNodes = getBranchPath(currentBranchId);
+    // Get the branch path - nodes that should be displayed for the current branch. The stored
+    // placeholder of the answer being streamed is shown as the streaming message instead.
+    const branchPathNodes = getBranchPath(currentBranchId)
+      .filter(node => node.id !== streamingMessageId);
     
     // If we're not streaming, just return the branch path
     if (!isStreaming || !streamingContent || !streamingParentId) {
@@ -769,7 +1230,7 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     
     // Default: return branch path without streaming
     return branchPathNodes;
-  }, [projectId, currentBranchId, getBranchPath, isStreaming, streamingContent, streamingParentId]);
+  }, [projectId, currentBranchId, getBranchPath, isStreaming, streamingContent, streamingParentId, streamingMessageId]);
 
   // Transform nodes for React Flow (Minimap)
   const getNodesForReactFlow = useCallback(() => {
@@ -795,7 +1256,10 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     const sortedBranches = [...branches].sort((a, b) => a.depth - b.depth);
     
     // Center position for the visualization
-    const centerX = 400; 
+    const centerX = MAP_CENTER_X;
+    
+    // Station positions from the layout service; nodes added since it was fetched fall back below
+    const nodeLayouts = layout?.nodeLayouts || {};
     
     // Responsive branch spacing based on viewport width (for fallback calculations)
     const getResponsiveBranchSpacing = () => {
@@ -808,7 +1272,7 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     const branchSpacing = getResponsiveBranchSpacing();
     
     // Scaling factors for layout coordinates to ReactFlow coordinates
-    const xScaleFactor = 1.5;  // Adjust based on visual testing
+    const xScaleFactor = MAP_X_SCALE;
     const yScaleFactor = 100;  // Vertical spacing between nodes
     
     // Assign positions using layout data when available, fall back to default calculation
@@ -817,8 +1281,14 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
       let yOffset = 0;
       let direction: 'left' | 'right' | 'auto' = 'auto';
       
-      // If we have layout data in branch metadata, use it
-      if (branch.metadata?.layout) {
+      const computedLayout = layout?.branchLayouts[branch.id];
+      
+      // Prefer the layout computed with the station positions, then the one stored in metadata
+      if (computedLayout) {
+        xPosition = centerX + (computedLayout.x * xScaleFactor);
+        yOffset = computedLayout.siblingIndex * 30;
+        direction = computedLayout.direction;
+      } else if (typeof branch.metadata?.layout?.x === 'number') {
         const layout = branch.metadata.layout;
         
         // Apply proper coordinate scaling from layout service to ReactFlow
@@ -912,7 +1382,7 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
       type: 'rootNode',
       position: { 
         x: mainBranchData.xPosition - 23, // Center the 46px wide root node
-        y: 50 
+        y: nodeLayouts[rootNode.id]?.y ?? ROOT_Y
       },
       data: {
         color: mainBranchData.color,
@@ -1063,7 +1533,10 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
           // Check if the branch point has a calculated Y position already
           const parentBranchPointY = branchPointYPositions.get(connection.branchPointId);
           
-          if (parentBranchPointY) {
+          if (nodeLayouts[branchRoot.id]) {
+            // Use the position computed by the layout service
+            branchRootYPosition = nodeLayouts[branchRoot.id].y;
+          } else if (parentBranchPointY) {
             // Use the exact Y position of the branch point
             branchRootYPosition = parentBranchPointY;
           } else {
@@ -1078,6 +1551,8 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
           flowNodes.push({
             id: branchRoot.id,
             type: 'branchRootNode',
+            // Dragging a branch root moves its whole line, see Minimap
+            draggable: true,
             position: { 
               x: xPosition - 14, // Center the 28px wide branch root
               y: branchRootYPosition 
@@ -1091,7 +1566,10 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
                 : branchName,
               branchDirection: branchData.direction || // First use branch data from layout
                               connection.direction || // Then connection direction from layout
-                              (branchData.xPosition > mainBranchData.xPosition ? 'right' : 'left') // Fallback calculation
+                              (branchData.xPosition > mainBranchData.xPosition ? 'right' : 'left'), // Fallback calculation
+              isMerged: Boolean(branch.metadata?.merge),
+              isPinned: getPinnedOffset(branch) !== null,
+              usage: usage?.branches[branchId]
             } as BranchRootNodeData
           });
         }
@@ -1112,9 +1590,26 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
         previousNodeType = 'branchRootNode';
       }
 
+      // Use the station positions computed by the layout service when it placed this branch,
+      // so each line is exactly as long as its stations and never runs into its neighbours
+      if (layout?.branchLayouts[branchId]) {
+        stations.forEach((station, index) => {
+          const nodeLayout = nodeLayouts[station.id];
+          if (nodeLayout) {
+            station.yPosition = nodeLayout.y;
+          } else if (index > 0) {
+            // Not laid out yet, e.g. a message sent since: continue the line below
+            station.yPosition = stations[index - 1].yPosition + STATION_SPACING;
+          } else {
+            station.yPosition = isMainBranch
+              ? (nodeLayouts[rootNode.id]?.y ?? ROOT_Y) + FIRST_STATION_OFFSET
+              : branchRootYPosition + FIRST_CHILD_STATION_OFFSET;
+          }
+        });
+      }
       // For child branches, adjust station Y positions to start below the branch root
       // This ensures child branch stations are properly positioned in relation to the branch root
-      if (branchId !== mainBranch.id && branchRoot) {
+      else if (branchId !== mainBranch.id && branchRoot) {
         // Get any vertical offset that was applied to this branch
         const verticalOffset = branchData.yOffset || 0;
         
@@ -1139,9 +1634,10 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
               const childBranchData = branchMap.get(conn.childBranchId);
               if (!childBranchData) return null;
               
-              // Determine direction if not explicitly set
-              const direction = conn.direction || 
-                (childBranchData.xPosition > xPosition ? 'right' : 'left');
+              // Resolve 'auto' (and missing) directions from where the layout placed the branch
+              const direction = conn.direction && conn.direction !== 'auto'
+                ? conn.direction
+                : (childBranchData.xPosition > xPosition ? 'right' : 'left');
               
               return {
                 branchId: conn.childBranchId,
@@ -1179,6 +1675,7 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
             flowNodes.push({
               id: station.branchPoint.id,
               type: 'branchPointNode',
+              draggable: !isMainBranch,
               position: { 
                 x: xPosition - 16, // Center the 32px wide branch point
                 y: station.yPosition 
@@ -1194,19 +1691,7 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
                   direction: branch.direction as 'left' | 'right' | 'auto',
                   isOnActivePath: activeBranches.has(branch.branchId),
                   handleId: branch.handleId
-                })),
-                leftBranch: leftBranches.length > 0 ? {
-                  branchId: leftBranches[0].branchId,
-                  branchColor: branchMap.get(leftBranches[0].branchId)?.color || '',
-                  branchName: branchMap.get(leftBranches[0].branchId)?.branch.name || 'Left Branch',
-                  isOnActivePath: activeBranches.has(leftBranches[0].branchId)
-                } : undefined,
-                rightBranch: rightBranches.length > 0 ? {
-                  branchId: rightBranches[0].branchId,
-                  branchColor: branchMap.get(rightBranches[0].branchId)?.color || '',
-                  branchName: branchMap.get(rightBranches[0].branchId)?.branch.name || 'Right Branch',
-                  isOnActivePath: activeBranches.has(rightBranches[0].branchId)
-                } : undefined
+                }))
               } as BranchPointNodeData
             });
             
@@ -1292,6 +1777,7 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
           flowNodes.push({
             id: station.id,
             type: 'stationNode',
+            draggable: !isMainBranch,
             position: { 
               x: xPosition - (stationWidth / 2), // Center the station with accurate width
               y: station.yPosition 
@@ -1300,6 +1786,10 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
               color,
               branchId,
               isActive,
+              isFocused: Boolean(focusRequest) && (
+                station.userMessage?.id === focusRequest?.nodeId ||
+                station.assistantMessage?.id === focusRequest?.nodeId
+              ),
               userContent: station.userMessage?.message_text || '',
               assistantContent: station.assistantMessage?.message_text || '',
               timestamp: messageTimestamp,
@@ -1363,28 +1853,16 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     });
     
     return { nodes: flowNodes, edges: flowEdges };
-  }, [allNodes, branches, currentBranchId, getBranchColor]);
-
-  // Fix polling effect to use displayedChatNodes instead of displayedNodes
-  useEffect(() => {
-    if (!pollingInterval || !projectId || projectLoading) return;
-    
-    const interval = setInterval(() => {
-      // Only poll if we're possibly waiting for an AI response
-      const lastMessage = displayedChatNodes.length > 0 ? displayedChatNodes[displayedChatNodes.length - 1] : null;
-      if (lastMessage && (lastMessage.type === 'user-message' || (lastMessage.optimistic && lastMessage.isLoading))) {
-        fetchData();
-      }
-    }, pollingInterval);
-
-    return () => clearInterval(interval);
-  }, [displayedChatNodes, pollingInterval, projectId, projectLoading, fetchData]);
+  }, [allNodes, branches, layout, currentBranchId, getBranchColor, usage, focusRequest]);
 
   // The context value
   const contextValue = useMemo<ConversationContextValue>(() => ({
     // Data
     branches,
     allNodes,
+    usage,
+    layout,
+    layoutType,
     displayedChatNodes,
     
     // State
@@ -1396,14 +1874,21 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     isStreaming,
     streamingContent,
     streamingParentId,
+    focusRequest,
     
     // Actions
     fetchData,
     recalculateLayout,
     switchBranch,
+    focusNode,
     createBranch,
+    pinBranch,
+    resetBranchLayout,
     updateStreamingContent,
+    stopGeneration,
     sendMessage,
+    regenerateMessage,
+    editMessage,
     
     // Utility
     getBranchColor,
@@ -1413,6 +1898,9 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
   }), [
     branches,
     allNodes,
+    usage,
+    layout,
+    layoutType,
     displayedChatNodes,
     projectId,
     currentBranchId,
@@ -1422,12 +1910,19 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({
     isStreaming,
     streamingContent,
     streamingParentId,
+    focusRequest,
     fetchData,
     recalculateLayout,
     switchBranch,
+    focusNode,
     createBranch,
+    pinBranch,
+    resetBranchLayout,
     updateStreamingContent,
+    stopGeneration,
     sendMessage,
+    regenerateMessage,
+    editMessage,
     getBranchColor,
     getBranchName,
     getBranchPath,
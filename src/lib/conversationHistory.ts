@@ -0,0 +1,87 @@
+import { query } from '@/lib/db';
+import { LLMMessage } from '@/lib/llm/types';
+import { ContextSummary } from '@/lib/types/database';
+
+// Message node on the ancestor path of a conversation position
+export interface HistoryNode {
+	id: string;
+	branch_id: string;
+	type: 'user-message' | 'assistant-message';
+	message_text: string | null;
+	metadata: { context_summary?: ContextSummary; [key: string]: unknown } | null;
+	depth: number;              // Distance from the starting node (0 = the node itself)
+}
+
+/**
+ * Get the message nodes on the path from the project root to a node
+ *
+ * Follows `parent_id` upwards, which crosses from a branch's `branch-root` through
+ * its `branch-point` into the parent branch, so the path covers every ancestor branch.
+ * @param nodeId Node to start from (usually the user message being answered)
+ * @returns Message nodes ordered from the oldest to the given node
+ */
+export async function getAncestorMessages(nodeId: string): Promise<HistoryNode[]> {
+	const result = await query(`
+		WITH RECURSIVE ancestors AS (
+			SELECT id, parent_id, branch_id, type, message_text, metadata, 0 AS depth
+			FROM timeline_nodes
+			WHERE id = $1
+			UNION ALL
+			SELECT n.id, n.parent_id, n.branch_id, n.type, n.message_text, n.metadata, a.depth + 1
+			FROM timeline_nodes n
+			JOIN ancestors a ON n.id = a.parent_id
+			WHERE a.depth < 10000
+		)
+		SELECT id, branch_id, type, message_text, metadata, depth
+		FROM ancestors
+		WHERE type IN ('user-message', 'assistant-message')
+		ORDER BY depth DESC
+	`, [nodeId]);
+
+	return result.rows;
+}
+
+/**
+ * Normalize a message list into the alternating user/assistant form models expect
+ *
+ * Empty messages (such as unfinished streaming placeholders) are dropped, consecutive
+ * messages from the same role are joined, and leading assistant messages are removed.
+ */
+export function normalizeMessages(messages: LLMMessage[]): LLMMessage[] {
+	const normalized: LLMMessage[] = [];
+
+	for (const message of messages) {
+		const content = message.content.trim();
+		if (!content) continue;
+
+		const previous = normalized[normalized.length - 1];
+		if (previous && previous.role === message.role) {
+			previous.content = `${previous.content}\n\n${content}`;
+		} else if (normalized.length > 0 || message.role === 'user') {
+			normalized.push({ role: message.role, content });
+		}
+	}
+
+	return normalized;
+}
+
+/**
+ * Build the model conversation history ending at a node
+ * @param nodeId Node to answer (usually a user message)
+ * @returns Alternating messages starting with a user message
+ */
+export async function buildConversationHistory(nodeId: string): Promise<LLMMessage[]> {
+	const nodes = await getAncestorMessages(nodeId);
+
+	return normalizeMessages(toMessages(nodes));
+}
+
+/**
+ * Convert history nodes into model messages
+ */
+export function toMessages(nodes: HistoryNode[]): LLMMessage[] {
+	return nodes.map(node => ({
+		role: node.type === 'user-message' ? 'user' : 'assistant',
+		content: node.message_text || ''
+	}));
+}
@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 
 // Create a Pool instance using environment variables
 const pool = new Pool({
@@ -38,6 +38,64 @@ export const db = {
 	}
 };
 
+// SQLSTATE codes of failures that succeed when the transaction is retried
+const RETRYABLE_ERROR_CODES = new Set([
+	'40001', // serialization_failure
+	'40P01'  // deadlock_detected
+]);
+
+export interface TransactionOptions {
+	/** Isolation level of the transaction, defaults to the server default (READ COMMITTED) */
+	isolationLevel?: 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE';
+	/** Number of times to retry after a serialization failure or deadlock */
+	maxRetries?: number;
+}
+
+/**
+ * Run a function inside a transaction on a dedicated client
+ *
+ * Every statement of the transaction must go through the client passed to the function.
+ * The transaction is committed when the function resolves and rolled back when it throws.
+ * Serialization failures and deadlocks are retried, so the function may run more than
+ * once and should not have side effects outside the database.
+ * @param fn Function running the statements of the transaction
+ * @param options Isolation level and retry limit
+ * @returns The value returned by the function
+ */
+export async function withTransaction<T>(
+	fn: (client: PoolClient) => Promise<T>,
+	options: TransactionOptions = {}
+): Promise<T> {
+	const { isolationLevel, maxRetries = 3 } = options;
+
+	for (let attempt = 0; ; attempt++) {
+		const client = await pool.connect();
+
+		try {
+			await client.query(isolationLevel ? `BEGIN ISOLATION LEVEL ${isolationLevel}` : 'BEGIN');
+			const result = await fn(client);
+			await client.query('COMMIT');
+			return result;
+		} catch (error) {
+			await client.query('ROLLBACK').catch(rollbackError => {
+				console.error('Database rollback error:', rollbackError);
+			});
+
+			const code = (error as { code?: string }).code;
+			if (code && RETRYABLE_ERROR_CODES.has(code) && attempt < maxRetries) {
+				console.warn(`Retrying transaction after error ${code} (attempt ${attempt + 1} of ${maxRetries})`);
+				// Back off a little so competing transactions can finish
+				await new Promise(resolve => setTimeout(resolve, 20 * 2 ** attempt + Math.random() * 20));
+				continue;
+			}
+
+			throw error;
+		} finally {
+			client.release();
+		}
+	}
+}
+
 // Maintain backward compatibility with existing code
 export async function query(text: string, params?: any[]) {
 	return db.query(text, params);
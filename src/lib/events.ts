@@ -0,0 +1,196 @@
+import { pool, query } from '@/lib/db';
+import { Branch, ProjectChangeEvent, TimelineNode } from '@/lib/types/database';
+import { Notification, PoolClient } from 'pg';
+
+// Channel the database triggers publish node and branch changes on
+const CHANNEL = 'project_changes';
+
+// Delay before reconnecting after the listening connection is lost
+const RECONNECT_DELAY_MS = 2000;
+
+type ProjectChangeHandler = (event: ProjectChangeEvent) => void;
+
+// Payload sent by the notify_project_change trigger
+interface ChangeNotification {
+	project_id: string;
+	entity: 'node' | 'branch';
+	action: 'created' | 'updated' | 'deleted';
+	id: string;
+}
+
+/**
+ * Load a node with the same fields as the nodes API
+ */
+async function loadNode(id: string): Promise<TimelineNode | null> {
+	const result = await query(`
+		SELECT n.*,
+			b.name AS branch_name,
+			b.color AS branch_color,
+			b.depth AS branch_depth,
+			b.parent_branch_id,
+			pb.name AS parent_branch_name,
+			pb.color AS parent_branch_color
+		FROM timeline_nodes n
+		LEFT JOIN branches b ON n.branch_id = b.id
+		LEFT JOIN branches pb ON b.parent_branch_id = pb.id
+		WHERE n.id = $1
+	`, [id]);
+	return result.rows[0] || null;
+}
+
+/**
+ * Load a branch with the same fields as the project branches API
+ */
+async function loadBranch(id: string): Promise<Branch | null> {
+	const result = await query(`
+		SELECT b.*,
+			(SELECT COUNT(*) FROM timeline_nodes t
+			 WHERE t.branch_id = b.id AND t.type IN ('user-message', 'assistant-message')) AS message_count,
+			pb.name AS parent_branch_name,
+			pb.color AS parent_branch_color,
+			bp.id AS branch_point_id,
+			bp.parent_id AS branch_parent_message_id,
+			(SELECT COUNT(*) FROM branches child WHERE child.parent_branch_id = b.id) AS child_branch_count,
+			(SELECT r.id FROM timeline_nodes r
+			 WHERE r.branch_id = b.id AND r.type IN ('root', 'branch-root') LIMIT 1) AS root_node_id
+		FROM branches b
+		LEFT JOIN branches pb ON b.parent_branch_id = pb.id
+		LEFT JOIN timeline_nodes bp ON b.branch_point_node_id = bp.id
+		WHERE b.id = $1
+	`, [id]);
+	return result.rows[0] || null;
+}
+
+/**
+ * ProjectChangeListener
+ *
+ * Holds a single database connection listening for change notifications and fans the
+ * changes out to the subscribers of each project. The connection is opened with the
+ * first subscription and re-established if it is lost.
+ */
+class ProjectChangeListener {
+	private client: PoolClient | null = null;
+	private connecting: Promise<void> | null = null;
+	private readonly subscribers = new Map<string, Set<ProjectChangeHandler>>();
+
+	/**
+	 * Subscribe to the changes of a project
+	 * @returns A function that removes the subscription
+	 */
+	async subscribe(projectId: string, handler: ProjectChangeHandler): Promise<() => void> {
+		if (!this.subscribers.has(projectId)) {
+			this.subscribers.set(projectId, new Set());
+		}
+		this.subscribers.get(projectId)!.add(handler);
+
+		const unsubscribe = () => {
+			const handlers = this.subscribers.get(projectId);
+			if (!handlers) return;
+			handlers.delete(handler);
+			if (handlers.size === 0) {
+				this.subscribers.delete(projectId);
+			}
+		};
+
+		try {
+			await this.connect();
+		} catch (error) {
+			unsubscribe();
+			throw error;
+		}
+
+		return unsubscribe;
+	}
+
+	private async connect(): Promise<void> {
+		if (this.client) return;
+		if (!this.connecting) {
+			this.connecting = this.listen().finally(() => {
+				this.connecting = null;
+			});
+		}
+		return this.connecting;
+	}
+
+	private async listen(): Promise<void> {
+		const client = await pool.connect();
+
+		client.on('notification', (message: Notification) => {
+			this.handleNotification(message).catch(error => {
+				console.error('[events] Failed to publish change:', error);
+			});
+		});
+
+		client.on('error', (error: Error) => {
+			console.error('[events] Listener connection lost:', error);
+			this.client = null;
+			client.release(error);
+			this.scheduleReconnect();
+		});
+
+		try {
+			await client.query(`LISTEN ${CHANNEL}`);
+		} catch (error) {
+			client.release(error as Error);
+			throw error;
+		}
+
+		this.client = client;
+	}
+
+	private scheduleReconnect(): void {
+		setTimeout(() => {
+			// Nobody is listening anymore; the next subscription reconnects
+			if (this.subscribers.size === 0) return;
+
+			this.connect().catch(error => {
+				console.error('[events] Failed to reconnect listener:', error);
+				this.scheduleReconnect();
+			});
+		}, RECONNECT_DELAY_MS);
+	}
+
+	private async handleNotification(message: Notification): Promise<void> {
+		if (message.channel !== CHANNEL || !message.payload) return;
+
+		const change: ChangeNotification = JSON.parse(message.payload);
+		const handlers = this.subscribers.get(change.project_id);
+		if (!handlers || handlers.size === 0) return;
+
+		let event: ProjectChangeEvent;
+
+		if (change.action === 'deleted') {
+			event = { entity: change.entity, action: 'deleted', id: change.id };
+		} else if (change.entity === 'node') {
+			const node = await loadNode(change.id);
+			// Deleted again before we could load it; the delete notification follows
+			if (!node) return;
+			event = { entity: 'node', action: change.action, id: change.id, data: node };
+		} else {
+			const branch = await loadBranch(change.id);
+			if (!branch) return;
+			event = { entity: 'branch', action: change.action, id: change.id, data: branch };
+		}
+
+		handlers.forEach(handler => handler(event));
+	}
+}
+
+// Keep a single listener per server process, also across hot reloads in development
+const globalForEvents = globalThis as unknown as { projectChangeListener?: ProjectChangeListener };
+
+/**
+ * Subscribe to node and branch changes of a project
+ * @param projectId Project to watch
+ * @param handler Called with every change, including changes made by other clients
+ * @returns A function that removes the subscription
+ */
+export function subscribeToProjectChanges(
+	projectId: string,
+	handler: ProjectChangeHandler
+): Promise<() => void> {
+	if (!globalForEvents.projectChangeListener) {
+		globalForEvents.projectChangeListener = new ProjectChangeListener();
+	}
+	return globalForEvents.projectChangeListener.subscribe(projectId, handler);
+}
@@ -0,0 +1,334 @@
+import { query } from '@/lib/db';
+import { Branch, Project, TimelineNode } from '@/lib/types/database';
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'markdown', 'html'];
+
+// Version of the JSON export layout, bumped on incompatible changes
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Rows of a project included in an export
+ *
+ * When scoped to a branch, this holds the branch, every branch forked from it, and its
+ * ancestor branches cut off at the fork that leads to it.
+ */
+export interface ProjectExport {
+	project: Project;
+	branches: Branch[];
+	timeline_nodes: TimelineNode[];
+	scope_branch_id: string | null;
+}
+
+/**
+ * Load the rows to export, unchanged from the database
+ * @param projectId Project to export
+ * @param branchId Limit the export to this branch, its descendants and the path leading to it
+ * @returns The export, or null when the project (or the branch in it) does not exist
+ */
+export async function loadProjectExport(projectId: string, branchId?: string | null): Promise<ProjectExport | null> {
+	const projectResult = await query('SELECT * FROM projects WHERE id = $1', [projectId]);
+	if (projectResult.rows.length === 0) return null;
+
+	const branchesResult = await query(
+		'SELECT * FROM branches WHERE project_id = $1 ORDER BY depth ASC, created_at ASC',
+		[projectId]
+	);
+	const nodesResult = await query(
+		'SELECT * FROM timeline_nodes WHERE project_id = $1 ORDER BY branch_id, position ASC',
+		[projectId]
+	);
+
+	const branches: Branch[] = branchesResult.rows;
+	const nodes: TimelineNode[] = nodesResult.rows;
+
+	if (!branchId) {
+		return {
+			project: projectResult.rows[0],
+			branches,
+			timeline_nodes: nodes,
+			scope_branch_id: null
+		};
+	}
+
+	const scopeBranch = branches.find(branch => branch.id === branchId);
+	if (!scopeBranch) return null;
+
+	// The branch and everything forked from it, with all of their nodes
+	const includedBranchIds = new Set<string>([scopeBranch.id]);
+	let added = true;
+	while (added) {
+		added = false;
+		branches.forEach(branch => {
+			if (branch.parent_branch_id && includedBranchIds.has(branch.parent_branch_id) && !includedBranchIds.has(branch.id)) {
+				includedBranchIds.add(branch.id);
+				added = true;
+			}
+		});
+	}
+
+	// Ancestors only up to the branch point leading towards the scoped branch
+	const cutPositions = new Map<string, number>();
+	let child = scopeBranch;
+	while (child.parent_branch_id) {
+		const parent = branches.find(branch => branch.id === child.parent_branch_id);
+		if (!parent) break;
+		const branchPoint = nodes.find(node => node.id === child.branch_point_node_id);
+		cutPositions.set(parent.id, branchPoint ? branchPoint.position : Number.MAX_SAFE_INTEGER);
+		child = parent;
+	}
+
+	return {
+		project: projectResult.rows[0],
+		branches: branches.filter(branch => includedBranchIds.has(branch.id) || cutPositions.has(branch.id)),
+		timeline_nodes: nodes.filter(node =>
+			includedBranchIds.has(node.branch_id) ||
+			(cutPositions.has(node.branch_id) && node.position <= cutPositions.get(node.branch_id)!)
+		),
+		scope_branch_id: scopeBranch.id
+	};
+}
+
+// File name safe in a Content-Disposition header
+export function toFileName(name: string): string {
+	return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project';
+}
+
+/**
+ * Lossless JSON dump of the exported rows
+ */
+export function toJsonExport(data: ProjectExport): string {
+	return JSON.stringify({
+		format_version: EXPORT_FORMAT_VERSION,
+		exported_at: new Date().toISOString(),
+		scope_branch_id: data.scope_branch_id,
+		project: data.project,
+		branches: data.branches,
+		timeline_nodes: data.timeline_nodes
+	}, null, 2);
+}
+
+// Branches ordered for reading: each branch followed by the branches forked from it
+function orderBranches(branches: Branch[]): Branch[] {
+	const ids = new Set(branches.map(branch => branch.id));
+	const byCreation = [...branches].sort((a, b) =>
+		new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+	);
+	const ordered: Branch[] = [];
+
+	const visit = (branch: Branch) => {
+		ordered.push(branch);
+		byCreation
+			.filter(child => child.parent_branch_id === branch.id)
+			.forEach(visit);
+	};
+
+	byCreation
+		.filter(branch => !branch.parent_branch_id || !ids.has(branch.parent_branch_id))
+		.forEach(visit);
+
+	return ordered;
+}
+
+function branchTitle(branch: Branch): string {
+	return branch.name || (branch.depth === 0 ? 'Main Line' : 'Branch');
+}
+
+function branchAnchor(branchId: string): string {
+	return `branch-${branchId}`;
+}
+
+// One readable section per branch
+interface TranscriptSection {
+	branch: Branch;
+	parent: Branch | null;
+	entries: TranscriptEntry[];
+}
+
+type TranscriptEntry =
+	| { kind: 'message'; node: TimelineNode }
+	| { kind: 'branch-point'; node: TimelineNode; children: Branch[] };
+
+/**
+ * Arrange the exported rows as transcripts, shared by the Markdown and HTML formats
+ */
+function buildTranscript(data: ProjectExport): TranscriptSection[] {
+	const branchesById = new Map(data.branches.map(branch => [branch.id, branch]));
+	const orderedBranches = orderBranches(data.branches);
+
+	return orderedBranches.map(branch => {
+		const entries: TranscriptEntry[] = [];
+
+		data.timeline_nodes
+			.filter(node => node.branch_id === branch.id)
+			.sort((a, b) => a.position - b.position)
+			.forEach(node => {
+				if (node.type === 'user-message' || node.type === 'assistant-message') {
+					entries.push({ kind: 'message', node });
+				} else if (node.type === 'branch-point') {
+					const children = orderedBranches.filter(child => child.branch_point_node_id === node.id);
+					if (children.length > 0) {
+						entries.push({ kind: 'branch-point', node, children });
+					}
+				}
+			});
+
+		return {
+			branch,
+			parent: branch.parent_branch_id ? branchesById.get(branch.parent_branch_id) || null : null,
+			entries
+		};
+	});
+}
+
+function describeAssistant(node: TimelineNode): string {
+	const details = [
+		node.model || node.metadata?.model,
+		node.metadata?.stopped ? 'stopped' : null
+	].filter(Boolean);
+	return details.length > 0 ? ` (${details.join(', ')})` : '';
+}
+
+function countMessages(data: ProjectExport): number {
+	return data.timeline_nodes.filter(node =>
+		node.type === 'user-message' || node.type === 'assistant-message'
+	).length;
+}
+
+/**
+ * Readable Markdown transcript with one section per branch
+ *
+ * Branch points become headings linking to the sections of the branches forked there.
+ */
+export function toMarkdownExport(data: ProjectExport): string {
+	const lines: string[] = [];
+	const sections = buildTranscript(data);
+
+	lines.push(`# ${data.project.name}`, '');
+	if (data.project.description) {
+		lines.push(`> ${data.project.description.replace(/\n/g, '\n> ')}`, '');
+	}
+	lines.push(
+		`Exported ${new Date().toISOString()} · ${sections.length} branch${sections.length === 1 ? '' : 'es'} · ${countMessages(data)} messages`,
+		''
+	);
+
+	if (sections.length > 1) {
+		lines.push('## Branches', '');
+		sections.forEach(({ branch }) => {
+			lines.push(`${'  '.repeat(Math.max(branch.depth, 0))}- [${branchTitle(branch)}](#${branchAnchor(branch.id)})`);
+		});
+		lines.push('');
+	}
+
+	sections.forEach(({ branch, parent, entries }) => {
+		lines.push('---', '', `<a id="${branchAnchor(branch.id)}"></a>`, '', `## ${branchTitle(branch)}`, '');
+		if (parent) {
+			lines.push(`*Forked from [${branchTitle(parent)}](#${branchAnchor(parent.id)})*`, '');
+		}
+
+		entries.forEach(entry => {
+			if (entry.kind === 'branch-point') {
+				lines.push('### Branch point', '');
+				entry.children.forEach(child => {
+					lines.push(`- [${branchTitle(child)}](#${branchAnchor(child.id)})`);
+				});
+				lines.push('');
+				return;
+			}
+
+			const { node } = entry;
+			const speaker = node.type === 'user-message' ? '**You**' : `**Assistant**${describeAssistant(node)}`;
+			lines.push(`${speaker}:`, '', node.message_text || '*(empty)*', '');
+		});
+	});
+
+	return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+// Only colors stored by the app are used in styles; anything else falls back to gray
+function safeColor(color: string | null | undefined): string {
+	return color && /^#[0-9a-fA-F]{3,8}$/.test(color) ? color : '#64748b';
+}
+
+/**
+ * Self-contained HTML page with one section per branch in its color
+ */
+export function toHtmlExport(data: ProjectExport): string {
+	const sections = buildTranscript(data);
+	const title = escapeHtml(data.project.name);
+
+	const branchLink = (branch: Branch) =>
+		`<a class="branch-link" href="#${branchAnchor(branch.id)}" style="--branch-color: ${safeColor(branch.color)}">${escapeHtml(branchTitle(branch))}</a>`;
+
+	const renderedSections = sections.map(({ branch, parent, entries }) => {
+		const renderedEntries = entries.map(entry => {
+			if (entry.kind === 'branch-point') {
+				return `<div class="branch-point"><h3>Branch point</h3><div>${entry.children.map(branchLink).join(' ')}</div></div>`;
+			}
+
+			const { node } = entry;
+			const isUser = node.type === 'user-message';
+			const speaker = isUser ? 'You' : `Assistant${escapeHtml(describeAssistant(node))}`;
+			return `<div class="message ${isUser ? 'user' : 'assistant'}"><div class="speaker">${speaker}</div><div class="text">${escapeHtml(node.message_text || '')}</div></div>`;
+		}).join('\n');
+
+		return `<section id="${branchAnchor(branch.id)}" style="--branch-color: ${safeColor(branch.color)}">
+<h2>${escapeHtml(branchTitle(branch))}</h2>
+${parent ? `<p class="forked">Forked from ${branchLink(parent)}</p>` : ''}
+${renderedEntries}
+</section>`;
+	}).join('\n');
+
+	const contents = sections.length > 1
+		? `<nav><h2>Branches</h2><ul>${sections.map(({ branch }) =>
+			`<li style="margin-left: ${Math.max(branch.depth, 0) * 16}px">${branchLink(branch)}</li>`
+		).join('')}</ul></nav>`
+		: '';
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, -apple-system, sans-serif; max-width: 820px; margin: 0 auto; padding: 32px 16px; color: #0f172a; background: #f8fafc; line-height: 1.5; }
+header p { color: #475569; }
+nav ul { list-style: none; padding: 0; }
+nav li { margin: 4px 0; }
+section { border-left: 6px solid var(--branch-color); background: white; border-radius: 8px; padding: 8px 20px 16px; margin: 24px 0; box-shadow: 0 1px 3px rgba(15, 23, 42, 0.08); }
+section h2 { color: var(--branch-color); }
+.forked { color: #64748b; font-size: 14px; }
+.branch-link { color: var(--branch-color); font-weight: 600; text-decoration: none; border: 1px solid var(--branch-color); border-radius: 999px; padding: 1px 10px; margin-right: 4px; }
+.branch-point { border-top: 2px dashed #cbd5e1; margin: 16px 0; padding-top: 8px; }
+.branch-point h3 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.05em; color: #64748b; margin: 0 0 8px; }
+.message { margin: 12px 0; padding: 10px 14px; border-radius: 8px; }
+.message.user { background: #f1f5f9; margin-left: 48px; }
+.message.assistant { background: white; border: 1px solid #e2e8f0; margin-right: 48px; }
+.speaker { font-size: 12px; font-weight: 600; color: #64748b; margin-bottom: 4px; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+${data.project.description ? `<p>${escapeHtml(data.project.description)}</p>` : ''}
+<p>Exported ${escapeHtml(new Date().toISOString())} · ${sections.length} branch${sections.length === 1 ? '' : 'es'} · ${countMessages(data)} messages</p>
+</header>
+${contents}
+${renderedSections}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,80 @@
+import { query } from '@/lib/db';
+import { GenerationSettings } from '@/lib/types/database';
+
+// Where each resolved setting came from, for display in the settings panel
+export type GenerationSettingSource = 'project' | { branch_id: string; branch_name: string | null };
+
+export interface ResolvedGenerationSettings {
+	settings: GenerationSettings;
+	sources: Partial<Record<keyof GenerationSettings, GenerationSettingSource>>;
+}
+
+/**
+ * Merge generation settings layers, later layers overriding earlier ones
+ * @param layers Settings ordered from least to most specific
+ * @returns Merged settings without unset values
+ */
+export function mergeGenerationSettings(...layers: (GenerationSettings | null | undefined)[]): GenerationSettings {
+	const merged: GenerationSettings = {};
+
+	for (const layer of layers) {
+		if (!layer) continue;
+		for (const [key, value] of Object.entries(layer)) {
+			if (value !== undefined && value !== null && value !== '') {
+				(merged as Record<string, unknown>)[key] = value;
+			}
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Resolve the generation settings that apply to a branch
+ *
+ * Project settings (`settings.generation`) are overridden by each ancestor branch's
+ * `metadata.generation`, from the main line down, and finally by the branch itself.
+ * @param branchId Branch to resolve settings for
+ * @returns Merged settings and the layer each value came from
+ */
+export async function resolveGenerationSettings(branchId: string): Promise<ResolvedGenerationSettings> {
+	const result = await query(`
+		WITH RECURSIVE lineage AS (
+			SELECT id, name, parent_branch_id, depth, project_id, metadata
+			FROM branches
+			WHERE id = $1
+			UNION ALL
+			SELECT b.id, b.name, b.parent_branch_id, b.depth, b.project_id, b.metadata
+			FROM branches b
+			JOIN lineage l ON b.id = l.parent_branch_id
+		)
+		SELECT l.id, l.name, l.depth, l.metadata->'generation' AS generation,
+			p.settings->'generation' AS project_generation
+		FROM lineage l
+		JOIN projects p ON p.id = l.project_id
+		ORDER BY l.depth ASC
+	`, [branchId]);
+
+	const sources: ResolvedGenerationSettings['sources'] = {};
+	const recordSources = (layer: GenerationSettings | null | undefined, source: GenerationSettingSource) => {
+		for (const [key, value] of Object.entries(layer || {})) {
+			if (value !== undefined && value !== null && value !== '') {
+				sources[key as keyof GenerationSettings] = source;
+			}
+		}
+	};
+
+	const projectLayer: GenerationSettings | null = result.rows[0]?.project_generation || null;
+	recordSources(projectLayer, 'project');
+
+	const branchLayers: GenerationSettings[] = [];
+	for (const row of result.rows) {
+		branchLayers.push(row.generation || {});
+		recordSources(row.generation, { branch_id: row.id, branch_name: row.name });
+	}
+
+	return {
+		settings: mergeGenerationSettings(projectLayer, ...branchLayers),
+		sources
+	};
+}
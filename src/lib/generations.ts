@@ -0,0 +1,136 @@
+import { encodeStreamEvent, StreamEvent } from '@/lib/streaming';
+
+// How long a finished generation stays available for clients reattaching late
+const FINISHED_RETENTION_MS = 60 * 1000;
+
+type GenerationListener = (event: StreamEvent) => void;
+
+/**
+ * Generation
+ *
+ * An assistant response being generated on the server. Every frame is buffered so a
+ * client attaching later (for example after a page reload) can replay the response so
+ * far and then follow the live tail.
+ */
+export class Generation {
+	private readonly events: StreamEvent[] = [];
+	private readonly listeners = new Set<GenerationListener>();
+	private finished = false;
+
+	constructor(
+		readonly id: string,
+		private readonly abortController: AbortController
+	) {}
+
+	get isFinished(): boolean {
+		return this.finished;
+	}
+
+	/**
+	 * Stop generating; the response ends with a `done` frame marked as stopped
+	 */
+	stop(): void {
+		this.abortController.abort();
+	}
+
+	publish(event: StreamEvent): void {
+		this.events.push(event);
+		if (event.type === 'done' || event.type === 'error') {
+			this.finished = true;
+		}
+		this.listeners.forEach(listener => listener(event));
+		if (this.finished) {
+			this.listeners.clear();
+		}
+	}
+
+	/**
+	 * Replay the buffered frames to a listener and keep it updated until the end
+	 * @returns A function that removes the listener
+	 */
+	subscribe(listener: GenerationListener): () => void {
+		this.events.forEach(event => listener(event));
+		if (this.finished) {
+			return () => {};
+		}
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+}
+
+// Keep one registry per server process, also across hot reloads in development
+const globalForGenerations = globalThis as unknown as { generations?: Map<string, Generation> };
+const generations = globalForGenerations.generations ?? new Map<string, Generation>();
+globalForGenerations.generations = generations;
+
+/**
+ * Run a generation in the background, independent of the request that started it
+ * @param id Id of the assistant message being generated
+ * @param events Frames of the response, ending with `done` or `error`
+ * @param abortController Aborted when the generation is stopped
+ */
+export function startGeneration(
+	id: string,
+	events: AsyncIterable<StreamEvent>,
+	abortController: AbortController
+): Generation {
+	const generation = new Generation(id, abortController);
+	generations.set(id, generation);
+
+	(async () => {
+		try {
+			for await (const event of events) {
+				generation.publish(event);
+			}
+		} catch (error) {
+			console.error(`Generation ${id} failed:`, error);
+		} finally {
+			if (!generation.isFinished) {
+				generation.publish({ type: 'error', message: 'Generation ended unexpectedly' });
+			}
+			setTimeout(() => {
+				if (generations.get(id) === generation) {
+					generations.delete(id);
+				}
+			}, FINISHED_RETENTION_MS);
+		}
+	})();
+
+	return generation;
+}
+
+/**
+ * Get a generation that is running or finished recently on this server
+ */
+export function getGeneration(id: string): Generation | undefined {
+	return generations.get(id);
+}
+
+/**
+ * Stream the frames of a generation as server-sent events, starting from the beginning
+ *
+ * Cancelling the stream only detaches the reader; the generation keeps running.
+ */
+export function generationEventStream(generation: Generation): ReadableStream {
+	const encoder = new TextEncoder();
+	let unsubscribe: (() => void) | null = null;
+
+	return new ReadableStream({
+		start(controller) {
+			let closed = false;
+			unsubscribe = generation.subscribe(event => {
+				if (closed) return;
+				controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+				if (event.type === 'done' || event.type === 'error') {
+					closed = true;
+					controller.close();
+				}
+			});
+		},
+		cancel() {
+			unsubscribe?.();
+		}
+	});
+}
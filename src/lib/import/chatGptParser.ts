@@ -0,0 +1,108 @@
+import { ImportedConversation, ImportedMessage } from './types';
+
+// Shape of a conversation in ChatGPT's conversations.json, limited to the fields we read
+interface ChatGptConversation {
+	id?: string;
+	conversation_id?: string;
+	title?: string | null;
+	create_time?: number | null;
+	update_time?: number | null;
+	current_node?: string | null;
+	mapping: Record<string, {
+		id: string;
+		parent?: string | null;
+		children?: string[];
+		message?: {
+			id: string;
+			author?: { role?: string };
+			create_time?: number | null;
+			content?: { content_type?: string; parts?: unknown[] };
+			metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+		} | null;
+	}>;
+}
+
+// Content types holding text written by the user or shown as the answer
+const TEXT_CONTENT_TYPES = new Set(['text', 'multimodal_text']);
+
+function isChatGptConversation(item: unknown): item is ChatGptConversation {
+	return typeof item === 'object' && item !== null &&
+		typeof (item as ChatGptConversation).mapping === 'object' &&
+		(item as ChatGptConversation).mapping !== null;
+}
+
+/**
+ * Check whether parsed JSON is a ChatGPT export (a conversation or a list of them)
+ */
+export function isChatGptExport(data: unknown): boolean {
+	const items = Array.isArray(data) ? data : [data];
+	return items.length > 0 && items.every(isChatGptConversation);
+}
+
+function toIsoDate(seconds: number | null | undefined): string | null {
+	return typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : null;
+}
+
+/**
+ * Read the conversations of a ChatGPT export
+ *
+ * System, tool and hidden messages are dropped; their children are attached to the nearest
+ * kept ancestor so the tree stays connected.
+ */
+export function parseChatGptExport(data: unknown): ImportedConversation[] {
+	const items = (Array.isArray(data) ? data : [data]) as ChatGptConversation[];
+
+	return items.map(conversation => {
+		const mapping = conversation.mapping;
+		const kept = new Map<string, ImportedMessage>();
+
+		Object.values(mapping).forEach(node => {
+			const message = node.message;
+			const role = message?.author?.role;
+			if (!message || (role !== 'user' && role !== 'assistant')) return;
+			if (message.metadata?.is_visually_hidden_from_conversation) return;
+			if (!TEXT_CONTENT_TYPES.has(message.content?.content_type || '')) return;
+
+			const text = (message.content?.parts || [])
+				.filter((part): part is string => typeof part === 'string')
+				.join('\n')
+				.trim();
+			if (!text) return;
+
+			kept.set(node.id, {
+				source_id: node.id,
+				parent_source_id: null,
+				role,
+				text,
+				created_at: toIsoDate(message.create_time),
+				model: role === 'assistant' ? message.metadata?.model_slug || null : null
+			});
+		});
+
+		// Nearest kept ancestor of a mapping node
+		const keptAncestor = (nodeId: string | null | undefined): string | null => {
+			const visited = new Set<string>();
+			let current = nodeId;
+			while (current && !visited.has(current)) {
+				if (kept.has(current)) return current;
+				visited.add(current);
+				current = mapping[current]?.parent;
+			}
+			return null;
+		};
+
+		kept.forEach(message => {
+			message.parent_source_id = keptAncestor(mapping[message.source_id]?.parent);
+		});
+
+		return {
+			source: 'chatgpt' as const,
+			source_id: conversation.conversation_id || conversation.id || null,
+			title: conversation.title?.trim() || 'Untitled conversation',
+			created_at: toIsoDate(conversation.create_time),
+			updated_at: toIsoDate(conversation.update_time),
+			messages: Array.from(kept.values()),
+			current_leaf_id: keptAncestor(conversation.current_node)
+		};
+	});
+}
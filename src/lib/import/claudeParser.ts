@@ -0,0 +1,103 @@
+import { ImportedConversation, ImportedMessage } from './types';
+
+// Shape of a conversation in a Claude data export, limited to the fields we read
+interface ClaudeConversation {
+	uuid?: string;
+	name?: string | null;
+	created_at?: string | null;
+	updated_at?: string | null;
+	current_leaf_message_uuid?: string | null;
+	chat_messages: {
+		uuid: string;
+		sender?: string;
+		text?: string | null;
+		content?: { type?: string; text?: string }[];
+		created_at?: string | null;
+		parent_message_uuid?: string | null;
+	}[];
+}
+
+// Parent id Claude uses for the first messages of a conversation
+const CLAUDE_ROOT_MESSAGE_ID = '00000000-0000-4000-8000-000000000000';
+
+function isClaudeConversation(item: unknown): item is ClaudeConversation {
+	return typeof item === 'object' && item !== null &&
+		Array.isArray((item as ClaudeConversation).chat_messages);
+}
+
+/**
+ * Check whether parsed JSON is a Claude export (a conversation or a list of them)
+ */
+export function isClaudeExport(data: unknown): boolean {
+	const items = Array.isArray(data) ? data : [data];
+	return items.length > 0 && items.every(isClaudeConversation);
+}
+
+/**
+ * Read the conversations of a Claude export
+ *
+ * Exports with parent ids keep their forks; older exports without them are read as a
+ * single line in message order.
+ */
+export function parseClaudeExport(data: unknown): ImportedConversation[] {
+	const items = (Array.isArray(data) ? data : [data]) as ClaudeConversation[];
+
+	return items.map(conversation => {
+		const hasParents = conversation.chat_messages.some(message => message.parent_message_uuid);
+		const messages: ImportedMessage[] = [];
+		const skippedParents = new Map<string, string | null>();
+		let previousId: string | null = null;
+
+		conversation.chat_messages.forEach(message => {
+			const text = (message.text || (message.content || [])
+				.filter(part => part.type === 'text' && part.text)
+				.map(part => part.text)
+				.join('\n')).trim();
+
+			const parentId = hasParents
+				? (message.parent_message_uuid && message.parent_message_uuid !== CLAUDE_ROOT_MESSAGE_ID
+					? message.parent_message_uuid
+					: null)
+				: previousId;
+
+			if (!text || (message.sender !== 'human' && message.sender !== 'assistant')) {
+				// Children of a dropped message attach to its parent instead
+				skippedParents.set(message.uuid, parentId);
+				return;
+			}
+
+			messages.push({
+				source_id: message.uuid,
+				parent_source_id: parentId,
+				role: message.sender === 'human' ? 'user' : 'assistant',
+				text,
+				created_at: message.created_at || null
+			});
+			previousId = message.uuid;
+		});
+
+		// Resolve parents that point at dropped messages
+		const resolveParent = (parentId: string | null): string | null => {
+			const visited = new Set<string>();
+			let current = parentId;
+			while (current && skippedParents.has(current) && !visited.has(current)) {
+				visited.add(current);
+				current = skippedParents.get(current) ?? null;
+			}
+			return current;
+		};
+		messages.forEach(message => {
+			message.parent_source_id = resolveParent(message.parent_source_id);
+		});
+
+		return {
+			source: 'claude' as const,
+			source_id: conversation.uuid || null,
+			title: conversation.name?.trim() || 'Untitled conversation',
+			created_at: conversation.created_at || null,
+			updated_at: conversation.updated_at || null,
+			messages,
+			current_leaf_id: resolveParent(conversation.current_leaf_message_uuid || null)
+		};
+	});
+}
@@ -0,0 +1,68 @@
+import { withTransaction } from '@/lib/db';
+import { isChatGptExport, parseChatGptExport } from './chatGptParser';
+import { isClaudeExport, parseClaudeExport } from './claudeParser';
+import { ImportResult, ImportSource } from './types';
+import { isSubwayExport, writeConversationProject, writeSubwayExport } from './writer';
+
+export type { ImportedConversation, ImportedMessage, ImportResult, ImportSource } from './types';
+
+/**
+ * Work out which tool produced an export
+ * @returns The source, or null when the format is not recognized
+ */
+export function detectImportSource(data: unknown): ImportSource | null {
+	if (isSubwayExport(data)) return 'subway';
+	if (isChatGptExport(data)) return 'chatgpt';
+	if (isClaudeExport(data)) return 'claude';
+	return null;
+}
+
+/**
+ * Import every conversation of an export as its own project
+ *
+ * Each project is written in its own transaction, so one malformed conversation does not
+ * stop the rest of a large export from being imported.
+ * @param data Parsed JSON of the export file
+ * @param userId User recorded as the creator of the new projects
+ * @returns The created projects and the conversations that failed, or null for unknown formats
+ */
+export async function importProjects(data: unknown, userId: string): Promise<ImportResult | null> {
+	const source = detectImportSource(data);
+	if (!source) return null;
+
+	const result: ImportResult = { source, imported: [], failed: [] };
+
+	if (isSubwayExport(data)) {
+		try {
+			result.imported.push(await withTransaction(client => writeSubwayExport(client, data, userId)));
+		} catch (error) {
+			console.error('Failed to import project export:', error);
+			result.failed.push({
+				title: data.project.name || 'Imported project',
+				error: error instanceof Error ? error.message : 'Unknown error'
+			});
+		}
+		return result;
+	}
+
+	const conversations = source === 'chatgpt' ? parseChatGptExport(data) : parseClaudeExport(data);
+
+	for (const conversation of conversations) {
+		if (conversation.messages.length === 0) {
+			result.failed.push({ title: conversation.title, error: 'Conversation has no messages' });
+			continue;
+		}
+
+		try {
+			result.imported.push(await withTransaction(client => writeConversationProject(client, conversation, userId)));
+		} catch (error) {
+			console.error(`Failed to import conversation "${conversation.title}":`, error);
+			result.failed.push({
+				title: conversation.title,
+				error: error instanceof Error ? error.message : 'Unknown error'
+			});
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,34 @@
+// Formats the importer understands
+export type ImportSource = 'subway' | 'chatgpt' | 'claude';
+
+/**
+ * Message of a conversation read from another chat tool
+ *
+ * Messages form a tree through their parent ids; a message with several children is a
+ * point where the conversation was edited or regenerated.
+ */
+export interface ImportedMessage {
+	source_id: string;
+	parent_source_id: string | null;
+	role: 'user' | 'assistant';
+	text: string;
+	created_at: string | null;
+	model?: string | null;
+}
+
+export interface ImportedConversation {
+	source: Exclude<ImportSource, 'subway'>;
+	source_id: string | null;
+	title: string;
+	created_at: string | null;
+	updated_at: string | null;
+	messages: ImportedMessage[];
+	// Last message of the path shown in the source tool; that path becomes the main line
+	current_leaf_id?: string | null;
+}
+
+export interface ImportResult {
+	source: ImportSource;
+	imported: { project_id: string; name: string }[];
+	failed: { title: string; error: string }[];
+}
@@ -0,0 +1,330 @@
+import { EXPORT_FORMAT_VERSION } from '@/lib/export';
+import { Branch, Project, TimelineNode } from '@/lib/types/database';
+import { BranchColorManager } from '@/lib/utils/branchColorManager';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ImportedConversation, ImportedMessage } from './types';
+
+// Length of the first message used to name an imported branch
+const BRANCH_NAME_LENGTH = 40;
+
+export interface ImportedProject {
+	project_id: string;
+	name: string;
+}
+
+function branchNameFrom(message: ImportedMessage): string {
+	const text = message.text.replace(/\s+/g, ' ').trim();
+	return text.length > BRANCH_NAME_LENGTH ? `${text.slice(0, BRANCH_NAME_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Write a conversation tree read from another tool as a new project
+ *
+ * The path shown last in the source tool becomes the main line. Wherever a message has
+ * several children (edits and regenerations), a branch point is added after it and every
+ * other child starts a new branch, keeping the original timestamps throughout.
+ * @param client Client of the transaction to write in
+ * @param conversation Conversation to import
+ * @param userId User recorded as the creator of the project and its branches
+ * @returns Id and name of the new project
+ */
+export async function writeConversationProject(
+	client: PoolClient,
+	conversation: ImportedConversation,
+	userId: string
+): Promise<ImportedProject> {
+	const now = new Date().toISOString();
+	const messagesById = new Map(conversation.messages.map(message => [message.source_id, message]));
+
+	// Children of every message in the order they were written; null holds the first messages
+	const children = new Map<string | null, ImportedMessage[]>();
+	conversation.messages.forEach(message => {
+		const parentId = message.parent_source_id && messagesById.has(message.parent_source_id)
+			? message.parent_source_id
+			: null;
+		if (!children.has(parentId)) children.set(parentId, []);
+		children.get(parentId)!.push(message);
+	});
+	children.forEach(list => list.sort((a, b) =>
+		new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
+	));
+
+	// Messages on the path to the current leaf win over their siblings
+	const currentPath = new Set<string>();
+	let leaf = conversation.current_leaf_id ? messagesById.get(conversation.current_leaf_id) : undefined;
+	while (leaf && !currentPath.has(leaf.source_id)) {
+		currentPath.add(leaf.source_id);
+		leaf = leaf.parent_source_id ? messagesById.get(leaf.parent_source_id) : undefined;
+	}
+	const pickPrimary = (options: ImportedMessage[]) =>
+		options.find(option => currentPath.has(option.source_id)) || options[0];
+
+	const createdAt = conversation.created_at || conversation.messages[0]?.created_at || now;
+	const projectId = uuidv4();
+	const name = conversation.title.slice(0, 255);
+
+	await client.query(
+		`INSERT INTO projects (id, name, description, created_at, updated_at, created_by, metadata)
+		 VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+		[
+			projectId, name, null, createdAt, conversation.updated_at || createdAt, userId,
+			JSON.stringify({ imported_from: { source: conversation.source, id: conversation.source_id, imported_at: now } })
+		]
+	);
+
+	const mainBranchId = uuidv4();
+	await client.query(
+		`INSERT INTO branches (id, project_id, name, color, depth, is_active, created_by, created_at)
+		 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+		[mainBranchId, projectId, 'Main Line', '#3b82f6', 0, true, userId, createdAt]
+	);
+
+	const rootNodeId = uuidv4();
+	await client.query(
+		`INSERT INTO timeline_nodes (id, project_id, branch_id, type, status, position, created_by, created_at)
+		 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+		[rootNodeId, projectId, mainBranchId, 'root', 'active', 0, userId, createdAt]
+	);
+
+	const colorManager = new BranchColorManager([
+		{ id: mainBranchId, parent_branch_id: null, color: '#3b82f6', depth: 0 }
+	]);
+
+	// Add a branch point after a node and start one branch per alternative child
+	const fork = async (
+		branchId: string,
+		depth: number,
+		afterNodeId: string,
+		position: number,
+		timestamp: string,
+		alternatives: ImportedMessage[]
+	) => {
+		const branchPointId = uuidv4();
+		await client.query(
+			`INSERT INTO timeline_nodes (
+				id, project_id, branch_id, parent_id,
+				type, message_text, message_role, created_by, created_at, position
+			) VALUES ($1, $2, $3, $4, 'branch-point', NULL, 'system', $5, $6, $7)`,
+			[branchPointId, projectId, branchId, afterNodeId, userId, timestamp, position]
+		);
+
+		for (const alternative of alternatives) {
+			const childBranchId = uuidv4();
+			const childCreatedAt = alternative.created_at || timestamp;
+			const color = colorManager.getColorForBranch(childBranchId, branchId, depth + 1);
+
+			await client.query(
+				`INSERT INTO branches (
+					id, project_id, parent_branch_id, branch_point_node_id,
+					name, color, depth, created_by, created_at, metadata
+				) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+				[
+					childBranchId, projectId, branchId, branchPointId,
+					branchNameFrom(alternative), color, depth + 1, userId, childCreatedAt,
+					JSON.stringify({ layout: { direction: 'auto' }, imported: true })
+				]
+			);
+
+			const branchRootId = uuidv4();
+			await client.query(
+				`INSERT INTO timeline_nodes (
+					id, project_id, branch_id, parent_id,
+					type, message_text, message_role, created_by, created_at, position
+				) VALUES ($1, $2, $3, $4, 'branch-root', 'Branch starting point', 'system', $5, $6, 0)`,
+				[branchRootId, projectId, childBranchId, branchPointId, userId, childCreatedAt]
+			);
+
+			await writeLine(childBranchId, depth + 1, branchRootId, 1, childCreatedAt, alternative);
+		}
+	};
+
+	// Write messages down one branch, following the primary child at every fork
+	const writeLine = async (
+		branchId: string,
+		depth: number,
+		parentNodeId: string,
+		startPosition: number,
+		startTimestamp: string,
+		first: ImportedMessage
+	) => {
+		let message: ImportedMessage | undefined = first;
+		let parentId = parentNodeId;
+		let position = startPosition;
+		let timestamp = startTimestamp;
+
+		while (message) {
+			const nodeId = uuidv4();
+			timestamp = message.created_at || timestamp;
+
+			await client.query(
+				`INSERT INTO timeline_nodes (
+					id, project_id, branch_id, parent_id, type, message_text, message_role,
+					created_by, created_at, updated_at, position, model, metadata
+				) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $9, $10, $11, $12)`,
+				[
+					nodeId, projectId, branchId, parentId,
+					message.role === 'user' ? 'user-message' : 'assistant-message',
+					message.text, message.role, message.role === 'user' ? userId : 'ai',
+					timestamp, position++, message.model || null,
+					JSON.stringify(message.model ? { model: message.model } : {})
+				]
+			);
+			parentId = nodeId;
+
+			const next: ImportedMessage[] = children.get(message.source_id) || [];
+			if (next.length === 0) break;
+
+			const primary = pickPrimary(next);
+			if (next.length > 1) {
+				await fork(branchId, depth, nodeId, position++, timestamp, next.filter(child => child !== primary));
+			}
+			message = primary;
+		}
+	};
+
+	const firstMessages = children.get(null) || [];
+	if (firstMessages.length > 0) {
+		const primary = pickPrimary(firstMessages);
+		let position = 1;
+		if (firstMessages.length > 1) {
+			await fork(mainBranchId, 0, rootNodeId, position++, createdAt, firstMessages.filter(message => message !== primary));
+		}
+		await writeLine(mainBranchId, 0, rootNodeId, position, createdAt, primary);
+	}
+
+	return { project_id: projectId, name };
+}
+
+/**
+ * Check whether parsed JSON is one of our own JSON exports
+ */
+export function isSubwayExport(data: unknown): data is {
+	format_version: number;
+	project: Project;
+	branches: Branch[];
+	timeline_nodes: TimelineNode[];
+} {
+	const value = data as Record<string, unknown> | null;
+	return typeof value === 'object' && value !== null &&
+		typeof value.format_version === 'number' &&
+		typeof value.project === 'object' && value.project !== null &&
+		Array.isArray(value.branches) &&
+		Array.isArray(value.timeline_nodes);
+}
+
+// Columns present in the database, so exports from other versions only write what exists
+async function tableColumns(client: PoolClient, table: string): Promise<Set<string>> {
+	const result = await client.query(
+		`SELECT column_name FROM information_schema.columns
+		 WHERE table_schema = current_schema() AND table_name = $1`,
+		[table]
+	);
+	return new Set(result.rows.map(row => row.column_name));
+}
+
+async function insertRow(client: PoolClient, table: string, columns: Set<string>, row: Record<string, unknown>) {
+	const entries = Object.entries(row).filter(([column, value]) => columns.has(column) && value !== undefined);
+	await client.query(
+		`INSERT INTO ${table} (${entries.map(([column]) => column).join(', ')})
+		 VALUES (${entries.map((_, index) => `$${index + 1}`).join(', ')})`,
+		entries.map(([, value]) =>
+			value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : value
+		)
+	);
+}
+
+/**
+ * Write one of our own JSON exports as a new project
+ *
+ * Every id is replaced so the same file can be imported more than once, and the rows are
+ * otherwise written as exported. Branches are inserted before their branch points exist,
+ * so their branch point is filled in once all nodes are written.
+ * @param client Client of the transaction to write in
+ * @param data Parsed export
+ * @param userId User recorded as the creator of the project
+ * @returns Id and name of the new project
+ */
+export async function writeSubwayExport(
+	client: PoolClient,
+	data: { format_version: number; project: Project; branches: Branch[]; timeline_nodes: TimelineNode[] },
+	userId: string
+): Promise<ImportedProject> {
+	if (data.format_version > EXPORT_FORMAT_VERSION) {
+		throw new Error(`Export format version ${data.format_version} is newer than this app supports`);
+	}
+
+	const ids = new Map<string, string>();
+	const newId = (oldId: string | null | undefined) => {
+		if (!oldId) return null;
+		if (!ids.has(oldId)) ids.set(oldId, uuidv4());
+		return ids.get(oldId)!;
+	};
+
+	const branchIds = new Set(data.branches.map(branch => branch.id));
+	const nodeIds = new Set(data.timeline_nodes.map(node => node.id));
+	const projectId = uuidv4();
+	const name = data.project.name || 'Imported project';
+
+	const projectColumns = await tableColumns(client, 'projects');
+	await insertRow(client, 'projects', projectColumns, {
+		...data.project,
+		id: projectId,
+		name,
+		created_by: data.project.created_by || userId,
+		metadata: {
+			...(data.project.metadata || {}),
+			imported_from: { source: 'subway', id: data.project.id, imported_at: new Date().toISOString() }
+		}
+	});
+
+	// Parents before children; a scoped export keeps its branch without the cut-off parent
+	const branchColumns = await tableColumns(client, 'branches');
+	const branches = [...data.branches].sort((a, b) => a.depth - b.depth);
+	for (const branch of branches) {
+		await insertRow(client, 'branches', branchColumns, {
+			...branch,
+			id: newId(branch.id),
+			project_id: projectId,
+			parent_branch_id: branch.parent_branch_id && branchIds.has(branch.parent_branch_id)
+				? newId(branch.parent_branch_id)
+				: null,
+			branch_point_node_id: null
+		});
+	}
+
+	// Nodes in tree order so every parent exists before its children
+	const nodeColumns = await tableColumns(client, 'timeline_nodes');
+	const nodeChildren = new Map<string | null, TimelineNode[]>();
+	data.timeline_nodes
+		.filter(node => branchIds.has(node.branch_id))
+		.forEach(node => {
+			const parentId = node.parent_id && nodeIds.has(node.parent_id) ? node.parent_id : null;
+			if (!nodeChildren.has(parentId)) nodeChildren.set(parentId, []);
+			nodeChildren.get(parentId)!.push(node);
+		});
+
+	const queue = [...(nodeChildren.get(null) || [])];
+	while (queue.length > 0) {
+		const node = queue.shift()!;
+		await insertRow(client, 'timeline_nodes', nodeColumns, {
+			...node,
+			id: newId(node.id),
+			project_id: projectId,
+			branch_id: newId(node.branch_id),
+			parent_id: node.parent_id && nodeIds.has(node.parent_id) ? newId(node.parent_id) : null
+		});
+		queue.push(...(nodeChildren.get(node.id) || []));
+	}
+
+	for (const branch of data.branches) {
+		if (branch.branch_point_node_id && nodeIds.has(branch.branch_point_node_id)) {
+			await client.query(
+				'UPDATE branches SET branch_point_node_id = $1 WHERE id = $2',
+				[newId(branch.branch_point_node_id), newId(branch.id)]
+			);
+		}
+	}
+
+	return { project_id: projectId, name };
+}
@@ -0,0 +1,239 @@
+import ELK, { ElkExtendedEdge, ElkNode } from 'elkjs/lib/elk.bundled.js';
+import { Branch, TimelineNode } from '@/lib/types/database';
+import { query } from '@/lib/db';
+import { getLayoutVersion, saveLayout } from './layoutCache';
+import { buildStations, layoutStations } from './stationLayout';
+import { BranchLayout, LayoutResult } from './treeBasedLayoutService';
+
+/**
+ * ElkLayoutService
+ *
+ * A layout service that hands the whole subway map to ELK's layered algorithm. Every
+ * station becomes a graph node and every line segment an edge, so ELK can minimize
+ * crossings and route connections orthogonally across all branches at once.
+ *
+ * Key concepts:
+ * - Lines run top to bottom; edges along a line are weighted to stay straight
+ * - Direction hints in branch metadata fix the left-to-right order of the lines
+ * - Each branch is placed where ELK put its first station; stations then follow the
+ *   shared station layout so every algorithm draws lines the same way
+ * - Coordinates are relative to the main line, like the tree layout
+ */
+export class ElkLayoutService {
+  private readonly STATION_WIDTH = 100;     // Width of a station in ELK units
+  private readonly STATION_HEIGHT = 40;     // Height of a station in ELK units
+  private readonly HINT_SPACING = 200;      // Initial horizontal offset of hinted branches
+  private readonly elk = new ELK();
+
+  /**
+   * Calculate layout positions for branches in a project
+   */
+  async calculate(branches: Branch[], nodes: TimelineNode[]): Promise<LayoutResult> {
+    // Find the root branch (depth 0)
+    const rootBranch = branches.find(b => b.depth === 0);
+    if (!rootBranch) {
+      console.warn('No root branch found');
+      return {
+        branchLayouts: {},
+        nodeLayouts: {},
+        width: 1200,
+        height: 600,
+        centerX: 600
+      };
+    }
+
+    const branchMap = new Map(branches.map(branch => [branch.id, branch]));
+    const stationsByBranch = buildStations(branches, nodes);
+
+    // Seed positions: hinted branches start on their side of the parent
+    const seedX = new Map<string, number>([[rootBranch.id, 0]]);
+    const sortedBranches = [...branches].sort((a, b) =>
+      a.depth - b.depth || new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+    sortedBranches.forEach(branch => {
+      if (!branch.parent_branch_id || seedX.has(branch.id)) return;
+      const parentX = seedX.get(branch.parent_branch_id) ?? 0;
+      const forkIndex = this.getForkIndex(branch.id, branches);
+      const side = this.getHintedDirection(branch) === 'left'
+        ? -1
+        : this.getHintedDirection(branch) === 'right'
+          ? 1
+          : (forkIndex % 2 === 0 ? 1 : -1);
+      seedX.set(branch.id, parentX + side * this.HINT_SPACING * (Math.floor(forkIndex / 2) + 1));
+    });
+
+    // Build the ELK graph
+    const children: ElkNode[] = [];
+    const edges: ElkExtendedEdge[] = [];
+
+    stationsByBranch.forEach((stations, branchId) => {
+      stations.forEach((station, index) => {
+        children.push({
+          id: station.id,
+          width: this.STATION_WIDTH,
+          height: this.STATION_HEIGHT,
+          x: seedX.get(branchId) ?? 0,
+          y: index * this.STATION_HEIGHT * 2
+        });
+
+        if (index > 0) {
+          edges.push({
+            id: `line-${stations[index - 1].id}-${station.id}`,
+            sources: [stations[index - 1].id],
+            targets: [station.id],
+            layoutOptions: { 'elk.layered.priority.straightness': '10' }
+          });
+        }
+      });
+
+      // Connect the first station of a child line to its branch point on the parent line
+      const branch = branchMap.get(branchId);
+      if (branch?.branch_point_node_id && stations.length > 0) {
+        edges.push({
+          id: `transfer-${branch.branch_point_node_id}-${stations[0].id}`,
+          sources: [branch.branch_point_node_id],
+          targets: [stations[0].id],
+          layoutOptions: { 'elk.layered.priority.straightness': '1' }
+        });
+      }
+    });
+
+    // Drop transfers whose branch point is missing from the project
+    const childIds = new Set(children.map(child => child.id));
+    const graph: ElkNode = {
+      id: 'root',
+      layoutOptions: {
+        'elk.algorithm': 'layered',
+        'elk.direction': 'DOWN',
+        'elk.edgeRouting': 'ORTHOGONAL',
+        'elk.layered.crossingMinimization.strategy': 'LAYER_SWEEP',
+        'elk.layered.crossingMinimization.forceNodeModelOrder': 'true',
+        'elk.layered.nodePlacement.strategy': 'NETWORK_SIMPLEX',
+        'elk.layered.considerModelOrder.strategy': 'NODES_AND_EDGES',
+        'elk.spacing.nodeNode': '40',
+        'elk.layered.spacing.nodeNodeBetweenLayers': '60'
+      },
+      // Model order follows the seeded positions, so hinted branches keep their side
+      children: [...children].sort((a, b) => (a.x || 0) - (b.x || 0)),
+      edges: edges.filter(edge => childIds.has(edge.sources[0]) && childIds.has(edge.targets[0]))
+    };
+
+    const result = await this.elk.layout(graph);
+    const positions = new Map(
+      (result.children || []).map(child => [child.id, {
+        x: (child.x || 0) + this.STATION_WIDTH / 2,
+        y: child.y || 0
+      }])
+    );
+
+    // Place each branch where ELK put its stations, relative to the main line
+    const rootStations = stationsByBranch.get(rootBranch.id) || [];
+    const originX = rootStations.length > 0 ? positions.get(rootStations[0].id)?.x ?? 0 : 0;
+    const branchLayouts: Record<string, BranchLayout> = {};
+
+    branches.forEach(branch => {
+      const stations = stationsByBranch.get(branch.id) || [];
+      const placed = stations
+        .map(station => positions.get(station.id))
+        .filter((position): position is { x: number; y: number } => Boolean(position));
+      if (placed.length === 0) return;
+
+      const x = placed[0].x - originX;
+      const ys = placed.map(position => position.y);
+      const parentLayout = branch.parent_branch_id ? branchLayouts[branch.parent_branch_id] : undefined;
+      const hinted = this.getHintedDirection(branch);
+
+      branchLayouts[branch.id] = {
+        x,
+        y: branch.depth === 0 ? 20 : Math.min(...ys),
+        direction: branch.depth === 0
+          ? 'auto'
+          : hinted !== 'auto'
+            ? hinted
+            : (parentLayout && x < parentLayout.x ? 'left' : 'right'),
+        siblingIndex: this.getForkIndex(branch.id, branches),
+        level: branch.depth,
+        width: Math.max(...placed.map(position => position.x)) - Math.min(...placed.map(position => position.x)) + this.STATION_WIDTH,
+        height: Math.max(100, Math.max(...ys) - Math.min(...ys) + this.STATION_HEIGHT)
+      };
+    });
+
+    // Place every station along the lines ELK ordered
+    const nodeLayouts = layoutStations(branches, nodes, branchLayouts);
+
+    // Calculate viewport dimensions
+    const xs = Object.values(branchLayouts).map(layout => layout.x);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const maxY = Math.max(...Object.values(branchLayouts).map(layout => layout.y + layout.height));
+
+    return {
+      branchLayouts,
+      nodeLayouts,
+      width: Math.max(1200, (result.width || 0) + 2 * this.HINT_SPACING),
+      height: maxY + 100,
+      centerX: (minX + maxX) / 2
+    };
+  }
+
+  /**
+   * Store calculated positions in the layout cache
+   */
+  async updateBranchPositions(projectId: string): Promise<void> {
+    try {
+      const version = await getLayoutVersion(projectId);
+
+      // 1. Fetch all branches for the project
+      const branchesResult = await query(
+        'SELECT * FROM branches WHERE project_id = $1',
+        [projectId]
+      );
+      const branches = branchesResult.rows;
+
+      // 2. Fetch all nodes for the project
+      const nodesResult = await query(
+        'SELECT * FROM timeline_nodes WHERE project_id = $1',
+        [projectId]
+      );
+      const nodes = nodesResult.rows;
+
+      // 3. Calculate layout
+      const layoutResult = await this.calculate(branches, nodes);
+
+      // 4. Store the layout, replacing the previous one of this algorithm unless the
+      // project changed meanwhile
+      await saveLayout(projectId, 'elk', layoutResult, version);
+    } catch (error) {
+      console.error('Error updating branch positions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Direction requested for a branch in its metadata
+   */
+  private getHintedDirection(branch: Branch): 'left' | 'right' | 'auto' {
+    const direction = branch.metadata?.layout?.direction;
+    return direction === 'left' || direction === 'right' ? direction : 'auto';
+  }
+
+  /**
+   * Get the index of a branch among all branches forking from the same branch point,
+   * ordered by creation time
+   */
+  private getForkIndex(branchId: string, branches: Branch[]): number {
+    const branch = branches.find(b => b.id === branchId);
+    if (!branch || !branch.parent_branch_id) return 0;
+
+    const siblings = branches
+      .filter(b =>
+        b.parent_branch_id === branch.parent_branch_id &&
+        b.branch_point_node_id === branch.branch_point_node_id
+      )
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+    return Math.max(0, siblings.findIndex(s => s.id === branchId));
+  }
+}
+
+export default ElkLayoutService;
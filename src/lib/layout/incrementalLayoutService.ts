@@ -0,0 +1,372 @@
+import { Branch, TimelineNode } from '@/lib/types/database';
+import { query } from '@/lib/db';
+import { getCachedLayout, getLayoutVersion, getStoredPositions, saveLayout } from './layoutCache';
+import type { LayoutServiceType } from './layoutServiceFactory';
+import {
+  getPinnedOffset,
+  layoutStations,
+  LineExtent,
+  linesCollide,
+  MAP_CENTER_X,
+  MAP_X_SCALE,
+  MIN_LINE_GAP
+} from './stationLayout';
+import { BranchLayout, LayoutResult } from './treeBasedLayoutService';
+
+export type LayoutMode = 'full' | 'incremental';
+
+export type LayoutMoveReason = 'added' | 'changed' | 'shifted';
+
+/**
+ * A branch whose stored position changed, in layout coordinates
+ */
+export interface LayoutMove {
+  branchId: string;
+  reason: LayoutMoveReason;   // New branch, direction hint or pin no longer met, or pushed aside by another line
+  from: number | null;        // Stored x, null for branches that had no position yet
+  to: number;
+}
+
+export interface IncrementalLayoutResult extends LayoutResult {
+  moves: LayoutMove[];
+}
+
+/**
+ * Any layout service that can compute a full layout, used to place new branches
+ */
+interface BaseLayoutService {
+  calculate(branches: Branch[], nodes: TimelineNode[]): Promise<LayoutResult>;
+}
+
+// Positions closer than this count as unchanged, layout coordinates are fractional
+const MOVE_TOLERANCE = 0.5;
+
+/**
+ * IncrementalLayoutService
+ *
+ * Updates an existing layout instead of recalculating it, so lines stay where users saw
+ * them when a branch is added. Positions stored in the layout cache are kept as they are;
+ * only new branches, and branches whose direction hint their position no longer meets, are
+ * placed.
+ *
+ * Key concepts:
+ * - A placed branch keeps the offset from its parent the base layout service gives it
+ * - Lines that collide with a placed branch are pushed outward, together with their children
+ * - Ancestors of a placed branch and pinned lines never move; the branch moves past them instead
+ * - Every branch whose position differs from the stored one is reported as a move
+ */
+export class IncrementalLayoutService {
+  constructor(
+    private readonly baseService: BaseLayoutService,
+    private readonly algorithm: LayoutServiceType
+  ) {}
+
+  /**
+   * Calculate layout positions, keeping the given positions
+   * @param storedPositions x of already placed branches in layout coordinates, keyed by branch ID
+   */
+  async calculate(
+    branches: Branch[],
+    nodes: TimelineNode[],
+    storedPositions: Record<string, number> = {}
+  ): Promise<IncrementalLayoutResult> {
+    const base = await this.baseService.calculate(branches, nodes);
+    if (Object.keys(base.branchLayouts).length === 0) {
+      return { ...base, moves: [] };
+    }
+
+    const branchMap = new Map(branches.map(branch => [branch.id, branch]));
+    const stored = new Map<string, number>(
+      Object.entries(storedPositions).filter(([, x]) => Number.isFinite(x))
+    );
+
+    // Lines in map coordinates; stored branches start where they are, the others get placed
+    const lines = new Map<string, LineExtent>();
+    branches.forEach(branch => {
+      const baseLayout = base.branchLayouts[branch.id];
+      const storedX = stored.get(branch.id);
+      if (!baseLayout || storedX === undefined) return;
+      lines.set(branch.id, this.toLine(storedX, baseLayout));
+    });
+
+    const sortedBranches = [...branches].sort((a, b) =>
+      a.depth - b.depth || new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+    const reasons = new Map<string, LayoutMoveReason>();
+
+    sortedBranches.forEach(branch => {
+      const baseLayout = base.branchLayouts[branch.id];
+      if (!baseLayout) return;
+
+      const line = lines.get(branch.id);
+      const parentLine = branch.parent_branch_id ? lines.get(branch.parent_branch_id) : undefined;
+      const pinnedOffset = getPinnedOffset(branch);
+      const pinnedX = parentLine && pinnedOffset !== null ? parentLine.x + pinnedOffset : null;
+      const isChanged = line && (pinnedX !== null
+        ? Math.abs(line.x - pinnedX) >= MOVE_TOLERANCE * MAP_X_SCALE
+        : this.violatesHint(branch, line, lines));
+      const reason = !line ? 'added' : isChanged ? 'changed' : null;
+      if (!reason) return;
+      reasons.set(branch.id, reason);
+
+      // Pinned lines go where they were dragged to, others keep the offset from the parent
+      // line the base layout would use
+      const baseParent = branch.parent_branch_id ? base.branchLayouts[branch.parent_branch_id] : undefined;
+      const offset = parentLine && baseParent ? (baseLayout.x - baseParent.x) * MAP_X_SCALE : 0;
+      const target = pinnedX ?? (parentLine
+        ? parentLine.x + offset
+        : this.toLine(baseLayout.x, baseLayout).x);
+
+      if (line) {
+        // Changed branches take their children along
+        this.shiftSubtree(branch.id, target - line.x, lines, branches);
+      } else {
+        lines.set(branch.id, { ...this.toLine(baseLayout.x, baseLayout), x: target });
+      }
+      this.settle(branch, lines, branchMap, branches, reasons);
+    });
+
+    // Build the final layouts and let the station layout place the stations along them
+    const branchLayouts: Record<string, BranchLayout> = {};
+    Object.entries(base.branchLayouts).forEach(([branchId, baseLayout]) => {
+      const line = lines.get(branchId);
+      const branch = branchMap.get(branchId);
+      const parentLine = branch?.parent_branch_id ? lines.get(branch.parent_branch_id) : undefined;
+      branchLayouts[branchId] = {
+        ...baseLayout,
+        x: line ? (line.x - MAP_CENTER_X) / MAP_X_SCALE : baseLayout.x,
+        direction: line && parentLine && baseLayout.direction !== 'auto'
+          ? (line.x < parentLine.x ? 'left' : 'right')
+          : baseLayout.direction
+      };
+    });
+    const nodeLayouts = layoutStations(branches, nodes, branchLayouts);
+
+    const moves: LayoutMove[] = [];
+    sortedBranches.forEach(branch => {
+      const layout = branchLayouts[branch.id];
+      if (!layout) return;
+      const from = stored.get(branch.id);
+      if (from !== undefined && Math.abs(from - layout.x) < MOVE_TOLERANCE) return;
+      moves.push({
+        branchId: branch.id,
+        reason: reasons.get(branch.id) || 'shifted',
+        from: from ?? null,
+        to: layout.x
+      });
+    });
+
+    // Calculate viewport dimensions
+    const xs = Object.values(branchLayouts).map(layout => layout.x);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+
+    return {
+      branchLayouts,
+      nodeLayouts,
+      width: Math.max(base.width, (maxX - minX) * MAP_X_SCALE + 2 * MIN_LINE_GAP),
+      height: base.height,
+      centerX: (minX + maxX) / 2,
+      moves
+    };
+  }
+
+  /**
+   * Get the layout of a project from the layout cache
+   *
+   * When the branches or nodes changed since it was stored, new and changed branches are
+   * placed around the stored positions and the result is cached again.
+   */
+  async getLayout(projectId: string): Promise<LayoutResult> {
+    const cached = await getCachedLayout(projectId, this.algorithm);
+    if (cached) return cached;
+
+    const version = await getLayoutVersion(projectId);
+    const branchesResult = await query(
+      'SELECT * FROM branches WHERE project_id = $1',
+      [projectId]
+    );
+    const nodesResult = await query(
+      'SELECT * FROM timeline_nodes WHERE project_id = $1',
+      [projectId]
+    );
+
+    const storedPositions = await getStoredPositions(projectId, this.algorithm);
+    const layoutResult = await this.calculate(branchesResult.rows, nodesResult.rows, storedPositions);
+    if (Object.keys(layoutResult.branchLayouts).length === 0) {
+      return layoutResult;
+    }
+
+    // Serve what was stored, so this matches later cache hits; a layout of a project that
+    // changed meanwhile is served once but not stored
+    if (!await saveLayout(projectId, this.algorithm, layoutResult, version)) {
+      return layoutResult;
+    }
+    return await getCachedLayout(projectId, this.algorithm) || layoutResult;
+  }
+
+  /**
+   * Place new and changed branches of a project and store the resulting layout
+   * @returns The branches that moved
+   */
+  async updateBranchPositions(projectId: string): Promise<LayoutMove[]> {
+    try {
+      const version = await getLayoutVersion(projectId);
+
+      // 1. Fetch all branches for the project
+      const branchesResult = await query(
+        'SELECT * FROM branches WHERE project_id = $1',
+        [projectId]
+      );
+      const branches = branchesResult.rows;
+
+      // 2. Fetch all nodes for the project
+      const nodesResult = await query(
+        'SELECT * FROM timeline_nodes WHERE project_id = $1',
+        [projectId]
+      );
+      const nodes = nodesResult.rows;
+
+      // 3. Calculate layout around the stored positions
+      const storedPositions = await getStoredPositions(projectId, this.algorithm);
+      const layoutResult = await this.calculate(branches, nodes, storedPositions);
+
+      // 4. Store the layout; branches that did not move keep their position. When the
+      // project changed meanwhile, the next request places them again
+      await saveLayout(projectId, this.algorithm, layoutResult, version);
+
+      return layoutResult.moves;
+    } catch (error) {
+      console.error('Error updating branch positions incrementally:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a branch layout to a line in map coordinates
+   */
+  private toLine(x: number, layout: BranchLayout): LineExtent {
+    return {
+      x: MAP_CENTER_X + x * MAP_X_SCALE,
+      top: layout.y,
+      bottom: layout.y + layout.height
+    };
+  }
+
+  /**
+   * Whether a branch sits on the other side of its parent than its direction hint asks
+   */
+  private violatesHint(branch: Branch, line: LineExtent, lines: Map<string, LineExtent>): boolean {
+    const hint = branch.metadata?.layout?.direction;
+    const parentLine = branch.parent_branch_id ? lines.get(branch.parent_branch_id) : undefined;
+    if (!parentLine || (hint !== 'left' && hint !== 'right')) return false;
+    return hint === 'left' ? line.x >= parentLine.x : line.x <= parentLine.x;
+  }
+
+  /**
+   * Move a branch and all of its descendants horizontally
+   */
+  private shiftSubtree(branchId: string, dx: number, lines: Map<string, LineExtent>, branches: Branch[]): string[] {
+    const moved: string[] = [];
+    const queue = [branchId];
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      const line = lines.get(id);
+      if (line) {
+        line.x += dx;
+        moved.push(id);
+      }
+      branches.filter(b => b.parent_branch_id === id).forEach(child => queue.push(child.id));
+    }
+    return moved;
+  }
+
+  /**
+   * Resolve the collisions caused by placing a branch
+   *
+   * The placed branch moves past its own ancestors; any other line it collides with is
+   * pushed away from it, with its children, and may in turn push lines further out.
+   */
+  private settle(
+    branch: Branch,
+    lines: Map<string, LineExtent>,
+    branchMap: Map<string, Branch>,
+    branches: Branch[],
+    reasons: Map<string, LayoutMoveReason>
+  ): void {
+    const ancestorsOf = (id: string): Set<string> => {
+      const ancestors = new Set<string>();
+      let current = branchMap.get(id);
+      while (current?.parent_branch_id) {
+        ancestors.add(current.parent_branch_id);
+        current = branchMap.get(current.parent_branch_id);
+      }
+      return ancestors;
+    };
+    const descendantsOf = (id: string): Set<string> => {
+      const descendants = new Set<string>();
+      const queue = [id];
+      while (queue.length > 0) {
+        const current = queue.shift() as string;
+        branches.filter(b => b.parent_branch_id === current).forEach(child => {
+          descendants.add(child.id);
+          queue.push(child.id);
+        });
+      }
+      return descendants;
+    };
+
+    const line = lines.get(branch.id);
+    if (!line) return;
+    const parentLine = branch.parent_branch_id ? lines.get(branch.parent_branch_id) : undefined;
+    const hint = branch.metadata?.layout?.direction;
+    const outward = hint === 'left' ? -1 : hint === 'right' ? 1 : (parentLine && line.x < parentLine.x ? -1 : 1);
+
+    const isPinned = (id: string) => {
+      const other = branchMap.get(id);
+      return other !== undefined && getPinnedOffset(other) !== null;
+    };
+
+    // Move past ancestors and pinned lines first, they keep their place
+    const ancestors = ancestorsOf(branch.id);
+    const ownSubtree = descendantsOf(branch.id);
+    const fixed = isPinned(branch.id)
+      ? []
+      : [...lines.keys()].filter(id => ancestors.has(id) || (isPinned(id) && id !== branch.id && !ownSubtree.has(id)));
+    for (let guard = 0; guard < lines.size; guard++) {
+      const blocking = fixed.find(id => {
+        const other = lines.get(id);
+        return other !== undefined && linesCollide(line, other);
+      });
+      if (!blocking) break;
+      const dx = (lines.get(blocking) as LineExtent).x + outward * MIN_LINE_GAP - line.x;
+      this.shiftSubtree(branch.id, dx, lines, branches);
+    }
+
+    // Push every other colliding line away, which may push further lines in turn. Pushes
+    // move lines away from the branch, the step limit only guards against lines pushing back
+    const pushers = [branch.id, ...ownSubtree];
+    const limit = lines.size * lines.size;
+    for (let step = 0; step < limit && pushers.length > 0; step++) {
+      const pusherId = pushers.shift() as string;
+      const pusher = lines.get(pusherId);
+      if (!pusher) continue;
+      const pusherAncestors = ancestorsOf(pusherId);
+      const pusherSubtree = descendantsOf(pusherId);
+
+      lines.forEach((other, otherId) => {
+        if (otherId === pusherId || pusherAncestors.has(otherId) || pusherSubtree.has(otherId)) return;
+        if (isPinned(otherId) || !linesCollide(pusher, other)) return;
+
+        const side = other.x === pusher.x ? outward : Math.sign(other.x - pusher.x);
+        const dx = pusher.x + side * MIN_LINE_GAP - other.x;
+        this.shiftSubtree(otherId, dx, lines, branches).forEach(id => {
+          if (!reasons.has(id)) reasons.set(id, 'shifted');
+          pushers.push(id);
+        });
+      });
+    }
+  }
+}
+
+export default IncrementalLayoutService;
@@ -0,0 +1,180 @@
+import { query, withTransaction } from '@/lib/db';
+import type { LayoutServiceType } from './layoutServiceFactory';
+import { MAP_X_SCALE, MIN_LINE_GAP, NodeLayout } from './stationLayout';
+import type { BranchLayout, LayoutResult } from './treeBasedLayoutService';
+
+/**
+ * Layout Cache
+ *
+ * Stores computed layouts in the branch_layouts table, one row per branch and algorithm,
+ * so branch metadata only holds what users set. Database triggers mark the rows of a
+ * project stale when its branches or nodes change; stale rows are no longer served but
+ * their positions are kept for the incremental layout to build on.
+ *
+ * The triggers also bump the layout version of the project. Layouts are saved with the
+ * version read before their rows were loaded, so a layout computed while the project
+ * changed is never served as current.
+ */
+
+interface BranchLayoutRow {
+  branch_id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  direction: 'left' | 'right' | 'auto';
+  sibling_index: number;
+  level: number;
+  node_layouts: Record<string, NodeLayout>;
+  stale: boolean;
+  is_current: boolean;
+}
+
+/**
+ * Assemble a layout from its rows, with the viewport derived from the branch positions
+ */
+function toLayoutResult(rows: BranchLayoutRow[]): LayoutResult {
+  const branchLayouts: Record<string, BranchLayout> = {};
+  const nodeLayouts: Record<string, NodeLayout> = {};
+
+  rows.forEach(row => {
+    branchLayouts[row.branch_id] = {
+      x: row.x,
+      y: row.y,
+      direction: row.direction,
+      siblingIndex: row.sibling_index,
+      level: row.level,
+      width: row.width,
+      height: row.height
+    };
+    Object.assign(nodeLayouts, row.node_layouts);
+  });
+
+  const xs = rows.map(row => row.x);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const maxY = Math.max(...rows.map(row => row.y + row.height));
+
+  return {
+    branchLayouts,
+    nodeLayouts,
+    width: Math.max(1200, (maxX - minX) * MAP_X_SCALE + 2 * MIN_LINE_GAP),
+    height: maxY + 100,
+    centerX: (minX + maxX) / 2
+  };
+}
+
+/**
+ * Get the layout version of a project
+ *
+ * Read it before loading the branches and nodes a layout is computed from, and save the
+ * layout with it.
+ */
+export async function getLayoutVersion(projectId: string): Promise<number> {
+  const result = await query('SELECT layout_version FROM projects WHERE id = $1', [projectId]);
+  return Number(result.rows[0]?.layout_version ?? 0);
+}
+
+/**
+ * Get the cached layout of a project
+ * @returns The layout, or null when it was never computed, is stale or was computed from an
+ * older version of the project
+ */
+export async function getCachedLayout(projectId: string, algorithm: LayoutServiceType): Promise<LayoutResult | null> {
+  const result = await query(
+    `SELECT l.branch_id, l.x, l.y, l.width, l.height, l.direction, l.sibling_index, l.level,
+       l.node_layouts, l.stale, l.layout_version = p.layout_version AS is_current
+     FROM branch_layouts l
+     JOIN projects p ON p.id = l.project_id
+     WHERE l.project_id = $1 AND l.algorithm = $2`,
+    [projectId, algorithm]
+  );
+  const rows: BranchLayoutRow[] = result.rows;
+
+  if (rows.length === 0 || rows.some(row => row.stale || !row.is_current)) {
+    return null;
+  }
+  return toLayoutResult(rows);
+}
+
+/**
+ * Get the branch positions last stored for a project, stale or not
+ * @returns x of each branch in layout coordinates, keyed by branch ID
+ */
+export async function getStoredPositions(projectId: string, algorithm: LayoutServiceType): Promise<Record<string, number>> {
+  const result = await query(
+    'SELECT branch_id, x FROM branch_layouts WHERE project_id = $1 AND algorithm = $2',
+    [projectId, algorithm]
+  );
+
+  const positions: Record<string, number> = {};
+  result.rows.forEach((row: { branch_id: string; x: number }) => {
+    positions[row.branch_id] = row.x;
+  });
+  return positions;
+}
+
+/**
+ * Replace the cached layout of a project with a freshly computed one
+ * @param version Layout version of the project read before the layout was computed
+ * @returns false when the project changed since, in which case nothing is stored
+ */
+export async function saveLayout(
+  projectId: string,
+  algorithm: LayoutServiceType,
+  layout: LayoutResult,
+  version: number
+): Promise<boolean> {
+  // Stations grouped by the branch they sit on
+  const nodeLayoutsByBranch = new Map<string, Record<string, NodeLayout>>();
+  Object.entries(layout.nodeLayouts).forEach(([nodeId, nodeLayout]) => {
+    const branchNodes = nodeLayoutsByBranch.get(nodeLayout.branchId) || {};
+    branchNodes[nodeId] = nodeLayout;
+    nodeLayoutsByBranch.set(nodeLayout.branchId, branchNodes);
+  });
+
+  return await withTransaction(async (client) => {
+    // A change committed after this check bumps the version past the one stored below,
+    // so the rows are not served either way
+    const versionResult = await client.query(
+      'SELECT layout_version FROM projects WHERE id = $1',
+      [projectId]
+    );
+    if (Number(versionResult.rows[0]?.layout_version ?? -1) !== version) {
+      return false;
+    }
+
+    await client.query(
+      'DELETE FROM branch_layouts WHERE project_id = $1 AND algorithm = $2',
+      [projectId, algorithm]
+    );
+
+    // Branches deleted since the layout was computed are skipped
+    for (const [branchId, branchLayout] of Object.entries(layout.branchLayouts)) {
+      await client.query(
+        `INSERT INTO branch_layouts (
+          project_id, branch_id, algorithm, x, y, width, height,
+          direction, sibling_index, level, node_layouts, layout_version
+        )
+        SELECT $1::uuid, $2::uuid, $3, $4::float8, $5::float8, $6::float8, $7::float8,
+          $8, $9::integer, $10::integer, $11::jsonb, $12::bigint
+        WHERE EXISTS (SELECT 1 FROM branches WHERE id = $2::uuid)`,
+        [
+          projectId,
+          branchId,
+          algorithm,
+          branchLayout.x,
+          branchLayout.y,
+          branchLayout.width,
+          branchLayout.height,
+          branchLayout.direction,
+          branchLayout.siblingIndex,
+          branchLayout.level,
+          JSON.stringify(nodeLayoutsByBranch.get(branchId) || {}),
+          version
+        ]
+      );
+    }
+    return true;
+  });
+}
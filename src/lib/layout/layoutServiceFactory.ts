@@ -1,7 +1,9 @@
+import ElkLayoutService from './elkLayoutService';
+import IncrementalLayoutService from './incrementalLayoutService';
 import SlotBasedLayoutService from './slotBasedLayoutService';
 import TreeBasedLayoutService from './treeBasedLayoutService';
 
-export type LayoutServiceType = 'slot' | 'tree';
+export type LayoutServiceType = 'slot' | 'tree' | 'elk';
 
 /**
  * Factory for creating layout services
@@ -16,10 +18,20 @@ export class LayoutServiceFactory {
         return new SlotBasedLayoutService();
       case 'tree':
         return new TreeBasedLayoutService();
+      case 'elk':
+        return new ElkLayoutService();
       default:
         return new TreeBasedLayoutService();
     }
   }
+
+  /**
+   * Get a layout service that keeps stored positions and places new branches the way
+   * the specified type would
+   */
+  static getIncrementalLayoutService(type: LayoutServiceType = 'tree') {
+    return new IncrementalLayoutService(LayoutServiceFactory.getLayoutService(type), type);
+  }
 }
 
 export default LayoutServiceFactory; 
\ No newline at end of file
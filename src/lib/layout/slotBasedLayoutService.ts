@@ -1,5 +1,7 @@
 import { Branch, TimelineNode } from '@/lib/types/database';
 import { query } from '@/lib/db';
+import { getLayoutVersion, saveLayout } from './layoutCache';
+import { layoutStations, NodeLayout } from './stationLayout';
 
 // Layout result interfaces (same as ELK for compatibility)
 export interface BranchLayout {
@@ -14,6 +16,7 @@ export interface BranchLayout {
 
 export interface LayoutResult {
   branchLayouts: Record<string, BranchLayout>;
+  nodeLayouts: Record<string, NodeLayout>;
   width: number;
   height: number;
   centerX: number;
@@ -59,6 +62,7 @@ export class SlotBasedLayoutService {
       console.warn('No root branch found');
       return {
         branchLayouts: {},
+        nodeLayouts: {},
         width: viewportWidth,
         height: 600,
         centerX
@@ -90,20 +94,21 @@ export class SlotBasedLayoutService {
           id: branch.id,
           parentId: branch.parent_branch_id,
           direction: preferredDirection,
-          depth: branch.depth
+          depth: branch.depth,
+          createdAt: new Date(branch.created_at).getTime()
         };
       });
     
-    // Sort branches by depth to ensure parent branches are processed before children
-    directionalBranches.sort((a, b) => a.depth - b.depth);
+    // Sort branches by depth to ensure parent branches are processed before children,
+    // and by creation time so repeated layouts allocate the same slots
+    directionalBranches.sort((a, b) => a.depth - b.depth || a.createdAt - b.createdAt);
     
     // Process branches with direction preferences first
     for (const branch of directionalBranches) {
       if (!branch.parentId) continue; // Skip if no parent (should never happen)
       
-      // Find child index - get all siblings and determine index
-      const siblings = branches.filter(b => b.parent_branch_id === branch.parentId);
-      const childIndex = siblings.findIndex(s => s.id === branch.id);
+      // Children of the same branch point fan out alternately to the right and left
+      const childIndex = this.getForkIndex(branch.id, branches);
       
       // Allocate slot with direction preference
       slotManager.allocateSlot(branch.id, branch.parentId, childIndex, branch.direction);
@@ -145,12 +150,8 @@ export class SlotBasedLayoutService {
       // Get direction from slot manager (which now tracks direction)
       const direction = slotManager.getDirectionForBranch(branch.id);
       
-      // Find branch's siblings for sibling index
-      const siblings = branches.filter(b => 
-        b.parent_branch_id === branch.parent_branch_id && 
-        b.id !== branch.id
-      );
-      const siblingIndex = Math.max(0, siblings.findIndex(s => s.id === branch.id));
+      // Index among the branches forking from the same branch point
+      const siblingIndex = this.getForkIndex(branch.id, branches);
       
       // Count nodes in branch for height calculation
       const nodesInBranch = branchNodes.get(branch.id) || [];
@@ -168,12 +169,16 @@ export class SlotBasedLayoutService {
       };
     }
     
+    // Place every station, pushing apart lines that would overlap
+    const nodeLayouts = layoutStations(branches, nodes, branchLayouts);
+    
     // Calculate total height based on deepest branch and its nodes
     const maxY = Math.max(...Object.values(branchLayouts).map(layout => layout.y + layout.height));
     const height = maxY + 100; // Add some padding
     
     return {
       branchLayouts,
+      nodeLayouts,
       width: viewportWidth,
       height,
       centerX
@@ -181,10 +186,12 @@ export class SlotBasedLayoutService {
   }
   
   /**
-   * Update branch metadata with calculated positions
+   * Store calculated positions in the layout cache
    */
   async updateBranchPositions(projectId: string): Promise<void> {
     try {
+      const version = await getLayoutVersion(projectId);
+      
       // 1. Fetch all branches for the project
       const branchesResult = await query(
         'SELECT * FROM branches WHERE project_id = $1',
@@ -202,36 +209,33 @@ export class SlotBasedLayoutService {
       // 3. Calculate layout
       const layoutResult = await this.calculate(branches, nodes);
       
-      // 4. Update branch metadata with calculated positions
-      await Promise.all(
-        branches.map((branch: Branch) => {
-          const layout = layoutResult.branchLayouts[branch.id];
-          if (!layout) return Promise.resolve();
-          
-          const metadata = branch.metadata || {};
-          const updatedMetadata = {
-            ...metadata,
-            layout: {
-              x: layout.x,
-              y: layout.y,
-              direction: layout.direction,
-              siblingIndex: layout.siblingIndex,
-              level: layout.level
-            }
-          };
-          
-          return query(
-            'UPDATE branches SET metadata = $1 WHERE id = $2',
-            [JSON.stringify(updatedMetadata), branch.id]
-          );
-        })
-      );
+      // 4. Store the layout, replacing the previous one of this algorithm unless the
+      // project changed meanwhile
+      await saveLayout(projectId, 'slot', layoutResult, version);
     } catch (error) {
       console.error('Error updating branch positions:', error);
       throw error;
     }
   }
   
+  /**
+   * Get the index of a branch among all branches forking from the same branch point,
+   * ordered by creation time
+   */
+  private getForkIndex(branchId: string, branches: Branch[]): number {
+    const branch = branches.find(b => b.id === branchId);
+    if (!branch || !branch.parent_branch_id) return 0;
+    
+    const siblings = branches
+      .filter(b => 
+        b.parent_branch_id === branch.parent_branch_id &&
+        b.branch_point_node_id === branch.branch_point_node_id
+      )
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    
+    return Math.max(0, siblings.findIndex(s => s.id === branchId));
+  }
+  
   /**
    * Group timeline nodes by their branch_id for easier processing
    */
@@ -0,0 +1,245 @@
+import { Branch, TimelineNode } from '@/lib/types/database';
+
+/**
+ * Station Layout
+ *
+ * Places every node of the subway map once the layout services have placed the branches.
+ * Shared by all layout services so the minimap, the debug panel and the image export draw
+ * the same coordinates.
+ *
+ * Key concepts:
+ * - A station pairs a user message with its answer; branch points are transfer stations
+ * - Lines start at their root or branch root and grow one station spacing per station
+ * - Child lines start level with the branch point they leave from
+ * - Lines that would overlap another line's stations are pushed outward, with their children
+ * - Lines pinned by dragging them in the minimap stay at their offset from the parent line;
+ *   they are placed first and other lines are pushed around them
+ */
+
+export type NodeLayoutKind = 'root' | 'branch-root' | 'station' | 'branch-point';
+
+/**
+ * Position of one node of the subway map, in map coordinates
+ */
+export interface NodeLayout {
+  x: number;            // Center of the line the node sits on
+  y: number;            // Top of the node
+  branchId: string;
+  kind: NodeLayoutKind;
+  nodeIds: string[];    // Timeline nodes drawn by this map node (a question and its answer share a station)
+  index: number;        // Order along the line, starting at 0 for the root or branch root
+}
+
+// Map coordinates, also used by the minimap for branches without a computed layout
+export const MAP_CENTER_X = 400;
+export const MAP_X_SCALE = 1.5;
+export const ROOT_Y = 50;
+export const STATION_SPACING = 100;
+export const FIRST_STATION_OFFSET = 100;
+export const FIRST_CHILD_STATION_OFFSET = 120;
+
+// Distance kept between the centers of lines whose stations share a stretch of the map
+export const MIN_LINE_GAP = 220;
+// Extra vertical margin before two lines count as sharing a stretch
+const VERTICAL_MARGIN = 40;
+
+/**
+ * Horizontal position and vertical extent of a line, in map coordinates
+ */
+export interface LineExtent {
+  x: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Anything holding a branch position, like BranchLayout from the layout services
+ */
+interface PositionedBranch {
+  x: number;
+  y: number;
+  direction: 'left' | 'right' | 'auto';
+  height: number;
+}
+
+/**
+ * Whether two lines are too close to each other along a shared stretch of the map
+ */
+export function linesCollide(a: LineExtent, b: LineExtent): boolean {
+  return Math.abs(a.x - b.x) < MIN_LINE_GAP &&
+    a.top - VERTICAL_MARGIN < b.bottom &&
+    b.top < a.bottom + VERTICAL_MARGIN;
+}
+
+/**
+ * Horizontal offset from its parent line a branch was pinned at, in map coordinates
+ * @returns The offset, or null for branches placed by the layout
+ */
+export function getPinnedOffset(branch: Branch): number | null {
+  const offsetX = branch.metadata?.layout?.pin?.offsetX;
+  if (!branch.parent_branch_id || typeof offsetX !== 'number' || !Number.isFinite(offsetX)) {
+    return null;
+  }
+  return offsetX;
+}
+
+interface MapStation {
+  id: string;
+  kind: NodeLayoutKind;
+  nodeIds: string[];
+}
+
+/**
+ * Group a branch's nodes into stations in line order
+ *
+ * A user message and the answer to it share a station, a lone message gets its own, and
+ * branch points only count when a branch leaves from them.
+ */
+export function buildStations(branches: Branch[], nodes: TimelineNode[]): Map<string, MapStation[]> {
+  const stationsByBranch = new Map<string, MapStation[]>();
+  branches.forEach(branch => stationsByBranch.set(branch.id, []));
+
+  const usedBranchPoints = new Set(
+    branches.map(branch => branch.branch_point_node_id).filter((id): id is string => Boolean(id))
+  );
+  const sortedNodes = [...nodes].sort((a, b) => a.position - b.position);
+  const answers = new Map<string, TimelineNode>();
+  sortedNodes.forEach(node => {
+    if (node.type === 'assistant-message' && node.parent_id && !answers.has(node.parent_id)) {
+      answers.set(node.parent_id, node);
+    }
+  });
+  const paired = new Set<string>();
+
+  sortedNodes.forEach(node => {
+    const stations = stationsByBranch.get(node.branch_id);
+    if (!stations || paired.has(node.id)) return;
+
+    switch (node.type) {
+      case 'root':
+        stations.push({ id: node.id, kind: 'root', nodeIds: [node.id] });
+        break;
+      case 'branch-root':
+        stations.push({ id: node.id, kind: 'branch-root', nodeIds: [node.id] });
+        break;
+      case 'branch-point':
+        if (usedBranchPoints.has(node.id)) {
+          stations.push({ id: node.id, kind: 'branch-point', nodeIds: [node.id] });
+        }
+        break;
+      case 'user-message': {
+        const answer = answers.get(node.id);
+        if (answer && answer.branch_id === node.branch_id) {
+          paired.add(answer.id);
+          stations.push({ id: node.id, kind: 'station', nodeIds: [node.id, answer.id] });
+        } else {
+          stations.push({ id: node.id, kind: 'station', nodeIds: [node.id] });
+        }
+        break;
+      }
+      case 'assistant-message':
+        stations.push({ id: node.id, kind: 'station', nodeIds: [node.id] });
+        break;
+    }
+  });
+
+  return stationsByBranch;
+}
+
+/**
+ * Place every node of the map and fit the branch layouts to their lines
+ *
+ * Branch layouts are updated in place: x moves when a line is pushed aside to avoid
+ * overlapping another line, and y and height become the extent of the line in map
+ * coordinates, so a line is as long as its message count requires.
+ * @param branches Branches of the project
+ * @param nodes Timeline nodes of the project
+ * @param branchLayouts Branch positions computed by a layout service, keyed by branch ID
+ * @returns Node positions keyed by the ID of the first timeline node they draw
+ */
+export function layoutStations<T extends PositionedBranch>(
+  branches: Branch[],
+  nodes: TimelineNode[],
+  branchLayouts: Record<string, T>
+): Record<string, NodeLayout> {
+  const nodeLayouts: Record<string, NodeLayout> = {};
+  const stationsByBranch = buildStations(branches, nodes);
+  const shifts = new Map<string, number>();
+  const placed: { branchId: string; x: number; top: number; bottom: number }[] = [];
+
+  // Parents before children, older branches first so existing lines keep their place
+  const sortedBranches = [...branches].sort((a, b) =>
+    a.depth - b.depth || new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  // Pinned lines and the lines they hang from come right after the main line, so the
+  // other lines are placed around them
+  const branchMap = new Map(branches.map(branch => [branch.id, branch]));
+  const placementOrder: Branch[] = [];
+  const enqueue = (branch: Branch) => {
+    if (placementOrder.includes(branch)) return;
+    const parent = branch.parent_branch_id ? branchMap.get(branch.parent_branch_id) : undefined;
+    if (parent) enqueue(parent);
+    placementOrder.push(branch);
+  };
+  sortedBranches.filter(branch => branch.depth === 0).forEach(enqueue);
+  sortedBranches.filter(branch => getPinnedOffset(branch) !== null).forEach(enqueue);
+  sortedBranches.forEach(enqueue);
+
+  placementOrder.forEach(branch => {
+    const layout = branchLayouts[branch.id];
+    if (!layout) return;
+
+    const parentLayout = branch.parent_branch_id ? branchLayouts[branch.parent_branch_id] : undefined;
+    if (branch.depth > 0 && !parentLayout) return;
+
+    const stations = stationsByBranch.get(branch.id) || [];
+    const branchPointLayout = branch.branch_point_node_id ? nodeLayouts[branch.branch_point_node_id] : undefined;
+    const top = branch.depth === 0 ? ROOT_Y : branchPointLayout?.y ?? ROOT_Y;
+    const firstOffset = branch.depth === 0 ? FIRST_STATION_OFFSET : FIRST_CHILD_STATION_OFFSET;
+    const stationY = (index: number) => index === 0 ? top : top + firstOffset + (index - 1) * STATION_SPACING;
+    const bottom = stationY(Math.max(stations.length - 1, 0));
+
+    // Children move with their parent line
+    const parentShift = branch.parent_branch_id ? shifts.get(branch.parent_branch_id) || 0 : 0;
+    const computedX = MAP_CENTER_X + layout.x * MAP_X_SCALE;
+    const parentX = branch.parent_branch_id
+      ? placed.find(entry => entry.branchId === branch.parent_branch_id)?.x ?? MAP_CENTER_X
+      : MAP_CENTER_X;
+    const pinnedOffset = getPinnedOffset(branch);
+    let x = pinnedOffset !== null ? parentX + pinnedOffset : computedX + parentShift;
+
+    // Push the line outward until no other line shares its stretch of the map
+    const outward = layout.direction === 'left' ? -1 : layout.direction === 'right' ? 1 : (x < parentX ? -1 : 1);
+    const findConflict = () => placed.find(entry => linesCollide(entry, { x, top, bottom }));
+    if (pinnedOffset !== null) {
+      // Pinned lines keep their place and point to the side they were dragged to
+      layout.direction = x < parentX ? 'left' : 'right';
+    } else if (branch.depth > 0) {
+      // Each step moves strictly outward, so this ends after at most one step per line
+      for (let conflict = findConflict(); conflict; conflict = findConflict()) {
+        x = conflict.x + outward * MIN_LINE_GAP;
+      }
+    }
+
+    shifts.set(branch.id, x - computedX);
+    placed.push({ branchId: branch.id, x, top, bottom });
+
+    stations.forEach((station, index) => {
+      nodeLayouts[station.id] = {
+        x,
+        y: stationY(index),
+        branchId: branch.id,
+        kind: station.kind,
+        nodeIds: station.nodeIds,
+        index
+      };
+    });
+
+    layout.x = (x - MAP_CENTER_X) / MAP_X_SCALE;
+    layout.y = top;
+    layout.height = bottom - top;
+  });
+
+  return nodeLayouts;
+}
@@ -0,0 +1,240 @@
+import { Branch, TimelineNode } from '@/lib/types/database';
+import { MAP_CENTER_X, ROOT_Y } from './stationLayout';
+import { LayoutResult } from './treeBasedLayoutService';
+
+/**
+ * Subway Map Renderer
+ *
+ * Draws a project's subway map as a standalone SVG document on the server, so the map can
+ * be used outside the app in slides and docs. Every node is drawn at the coordinates the
+ * layout services compute, the same ones the minimap renders, so the image matches what
+ * users see.
+ */
+
+export type SubwayMapFormat = 'svg' | 'png';
+
+export const SUBWAY_MAP_FORMATS: SubwayMapFormat[] = ['svg', 'png'];
+
+export interface SubwayMapInput {
+  projectName: string;
+  branches: Branch[];
+  nodes: TimelineNode[];
+  layout: LayoutResult;
+}
+
+// Drawing constants
+const PADDING = 40;
+const CORNER_RADIUS = 24;
+const STATION_RADIUS = 7;
+const TRANSFER_RADIUS = 11;
+const ROOT_RADIUS = 14;
+const LABEL_MAX_LENGTH = 32;
+const LABEL_CHAR_WIDTH = 6.5;
+const LEGEND_ROW_HEIGHT = 22;
+const FONT_FAMILY = "system-ui, -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif";
+
+interface MapStation {
+  y: number;
+  label: string;
+  isTransfer: boolean;
+}
+
+interface MapLine {
+  branch: Branch;
+  color: string;
+  x: number;
+  startY: number;
+  parentX: number | null;
+  stations: MapStation[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Only colors stored by the app are drawn; anything else falls back to gray
+function safeColor(color: string | null | undefined): string {
+  return color && /^#[0-9a-fA-F]{3,8}$/.test(color) ? color : '#64748b';
+}
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
+
+function branchTitle(branch: Branch): string {
+  return branch.name || (branch.depth === 0 ? 'Main Line' : `Branch ${branch.depth}`);
+}
+
+/**
+ * Collect every branch line and its stations from the computed node layouts
+ *
+ * Stations are labelled with the question they start with; branch points become
+ * transfer stations where child lines leave the parent line.
+ */
+function buildLines({ branches, nodes, layout }: SubwayMapInput): MapLine[] {
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const nodeLayouts = Object.values(layout.nodeLayouts || {});
+  const lines: MapLine[] = [];
+
+  [...branches].sort((a, b) => a.depth - b.depth).forEach(branch => {
+    const branchNodes = nodeLayouts
+      .filter(nodeLayout => nodeLayout.branchId === branch.id)
+      .sort((a, b) => a.index - b.index);
+    if (branchNodes.length === 0) return;
+
+    const parentLine = lines.find(line => line.branch.id === branch.parent_branch_id);
+    lines.push({
+      branch,
+      color: safeColor(branch.color),
+      x: branchNodes[0].x,
+      startY: branchNodes[0].y,
+      parentX: parentLine ? parentLine.x : null,
+      stations: branchNodes
+        .filter(nodeLayout => nodeLayout.kind === 'station' || nodeLayout.kind === 'branch-point')
+        .map(nodeLayout => ({
+          y: nodeLayout.y,
+          label: nodeLayout.nodeIds
+            .map(id => nodesById.get(id)?.message_text || '')
+            .find(text => text.trim()) || '',
+          isTransfer: nodeLayout.kind === 'branch-point'
+        }))
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Render a project's subway map as an SVG document
+ *
+ * Draws the branch lines in their colors, a station per message exchange labelled with the
+ * start of the question, transfer stations at branch points and a legend of branch names.
+ * @param input Project name, rows of the project and the layout computed for it
+ * @returns SVG markup with explicit width and height
+ */
+export function renderSubwayMapSvg(input: SubwayMapInput): string {
+  const lines = buildLines(input);
+  const title = truncate(input.projectName || 'Subway AI', 60);
+
+  let minX = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = ROOT_Y;
+
+  const connectors: string[] = [];
+  const tracks: string[] = [];
+  const stations: string[] = [];
+  const labels: string[] = [];
+
+  lines.forEach(line => {
+    const { x, color, startY } = line;
+    const isMain = line.branch.depth === 0;
+    const width = isMain ? 6 : 5;
+    const endY = line.stations.length > 0 ? line.stations[line.stations.length - 1].y : startY;
+    let trackStartY = startY;
+
+    // Child lines leave the transfer station sideways, then turn down
+    if (line.parentX !== null && line.parentX !== x) {
+      const direction = x > line.parentX ? 1 : -1;
+      trackStartY = startY + CORNER_RADIUS;
+      connectors.push(
+        `<path d="M ${line.parentX} ${startY} H ${x - direction * CORNER_RADIUS} Q ${x} ${startY} ${x} ${trackStartY}" fill="none" stroke="${color}" stroke-width="${width}" stroke-linecap="round"/>`
+      );
+    }
+    if (endY > trackStartY) {
+      tracks.push(
+        `<line x1="${x}" y1="${trackStartY}" x2="${x}" y2="${endY}" stroke="${color}" stroke-width="${width}" stroke-linecap="round"/>`
+      );
+    }
+
+    line.stations.forEach(station => {
+      if (station.isTransfer) {
+        stations.push(
+          `<circle cx="${x}" cy="${station.y}" r="${TRANSFER_RADIUS}" fill="#ffffff" stroke="#0f172a" stroke-width="3"/>`,
+          `<circle cx="${x}" cy="${station.y}" r="${TRANSFER_RADIUS - 6}" fill="${color}"/>`
+        );
+        return;
+      }
+
+      stations.push(
+        `<circle cx="${x}" cy="${station.y}" r="${STATION_RADIUS}" fill="#ffffff" stroke="${color}" stroke-width="3"/>`
+      );
+      const label = truncate(station.label, LABEL_MAX_LENGTH);
+      if (label) {
+        labels.push(
+          `<text x="${x + STATION_RADIUS + 8}" y="${station.y + 4}" font-size="12" fill="#334155">${escapeXml(label)}</text>`
+        );
+        maxX = Math.max(maxX, x + STATION_RADIUS + 8 + label.length * LABEL_CHAR_WIDTH);
+      }
+    });
+
+    minX = Math.min(minX, x - TRANSFER_RADIUS);
+    maxX = Math.max(maxX, x + TRANSFER_RADIUS);
+    maxY = Math.max(maxY, endY + TRANSFER_RADIUS);
+  });
+
+  // Terminus of the main line, titled with the project name
+  const mainLine = lines.find(line => line.branch.depth === 0);
+  const rootColor = mainLine ? mainLine.color : '#3b82f6';
+  const rootX = mainLine ? mainLine.x : MAP_CENTER_X;
+  const rootY = mainLine ? mainLine.startY : ROOT_Y;
+  stations.push(
+    `<circle cx="${rootX}" cy="${rootY}" r="${ROOT_RADIUS}" fill="${rootColor}" stroke="#ffffff" stroke-width="4"/>`
+  );
+  labels.push(
+    `<text x="${rootX + ROOT_RADIUS + 10}" y="${rootY + 6}" font-size="18" font-weight="700" fill="#0f172a">${escapeXml(title)}</text>`
+  );
+  minX = Math.min(minX, rootX - ROOT_RADIUS);
+  maxX = Math.max(maxX, rootX + ROOT_RADIUS + 10 + title.length * LABEL_CHAR_WIDTH * 1.4);
+
+  // Legend of branch names and colors to the right of the map
+  const legendX = maxX + PADDING;
+  const legendWidth = Math.max(
+    140,
+    ...lines.map(line => 48 + truncate(branchTitle(line.branch), LABEL_MAX_LENGTH).length * LABEL_CHAR_WIDTH)
+  );
+  const legendHeight = 36 + lines.length * LEGEND_ROW_HEIGHT;
+  const legendY = rootY - ROOT_RADIUS;
+  const legend = [
+    `<rect x="${legendX}" y="${legendY}" width="${legendWidth}" height="${legendHeight}" rx="8" fill="#ffffff" stroke="#e2e8f0"/>`,
+    `<text x="${legendX + 12}" y="${legendY + 22}" font-size="12" font-weight="700" fill="#0f172a">Lines</text>`,
+    ...lines.map((line, index) => {
+      const rowY = legendY + 40 + index * LEGEND_ROW_HEIGHT;
+      return `<line x1="${legendX + 12}" y1="${rowY - 4}" x2="${legendX + 36}" y2="${rowY - 4}" stroke="${line.color}" stroke-width="5" stroke-linecap="round"/>` +
+        `<text x="${legendX + 44}" y="${rowY}" font-size="12" fill="#334155">${escapeXml(truncate(branchTitle(line.branch), LABEL_MAX_LENGTH))}</text>`;
+    })
+  ];
+
+  const viewX = Math.floor(minX - PADDING);
+  const viewY = 0;
+  const width = Math.ceil(legendX + legendWidth + PADDING - viewX);
+  const height = Math.ceil(Math.max(maxY, legendY + legendHeight) + PADDING);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewX} ${viewY} ${width} ${height}" font-family="${FONT_FAMILY}">
+<title>${escapeXml(title)}</title>
+<rect x="${viewX}" y="${viewY}" width="${width}" height="${height}" fill="#f8fafc"/>
+<g id="connectors">${connectors.join('')}</g>
+<g id="lines">${tracks.join('')}</g>
+<g id="stations">${stations.join('')}</g>
+<g id="labels">${labels.join('')}</g>
+<g id="legend">${legend.join('')}</g>
+</svg>
+`;
+}
+
+/**
+ * Convert a rendered subway map to PNG
+ * @param svg Markup from renderSubwayMapSvg
+ * @param scale Pixel density multiplier, 2 gives sharp images on high-DPI screens
+ */
+export async function renderSubwayMapPng(svg: string, scale: number = 2): Promise<Buffer> {
+  // Loaded on demand so the SVG renderer has no native dependency
+  const { default: sharp } = await import('sharp');
+  return sharp(Buffer.from(svg), { density: 72 * scale }).png().toBuffer();
+}
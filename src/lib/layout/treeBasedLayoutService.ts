@@ -1,5 +1,7 @@
 import { Branch, TimelineNode } from '@/lib/types/database';
 import { query } from '@/lib/db';
+import { getLayoutVersion, saveLayout } from './layoutCache';
+import { layoutStations, NodeLayout } from './stationLayout';
 
 // Layout result interfaces (same as in SlotBasedLayoutService for compatibility)
 export interface BranchLayout {
@@ -14,6 +16,7 @@ export interface BranchLayout {
 
 export interface LayoutResult {
   branchLayouts: Record<string, BranchLayout>;
+  nodeLayouts: Record<string, NodeLayout>;
   width: number;
   height: number;
   centerX: number;
@@ -68,6 +71,7 @@ export class TreeBasedLayoutService {
       console.warn('No root branch found');
       return {
         branchLayouts: {},
+        nodeLayouts: {},
         width: 1200,
         height: 600,
         centerX: 600
@@ -133,6 +137,9 @@ export class TreeBasedLayoutService {
       };
     });
     
+    // Place every station, pushing apart lines that would overlap
+    const nodeLayouts = layoutStations(branches, nodes, branchLayouts);
+    
     // Calculate viewport dimensions
     const positions = Object.values(branchLayouts).map(layout => layout.x);
     const minX = Math.min(...positions);
@@ -148,6 +155,7 @@ export class TreeBasedLayoutService {
     
     return {
       branchLayouts,
+      nodeLayouts,
       width,
       height,
       centerX
@@ -155,10 +163,12 @@ export class TreeBasedLayoutService {
   }
   
   /**
-   * Update branch metadata with calculated positions
+   * Store calculated positions in the layout cache
    */
   async updateBranchPositions(projectId: string): Promise<void> {
     try {
+      const version = await getLayoutVersion(projectId);
+      
       // 1. Fetch all branches for the project
       const branchesResult = await query(
         'SELECT * FROM branches WHERE project_id = $1',
@@ -176,30 +186,9 @@ export class TreeBasedLayoutService {
       // 3. Calculate layout
       const layoutResult = await this.calculate(branches, nodes);
       
-      // 4. Update branch metadata with calculated positions
-      await Promise.all(
-        branches.map((branch: Branch) => {
-          const layout = layoutResult.branchLayouts[branch.id];
-          if (!layout) return Promise.resolve();
-          
-          const metadata = branch.metadata || {};
-          const updatedMetadata = {
-            ...metadata,
-            layout: {
-              x: layout.x,
-              y: layout.y,
-              direction: layout.direction,
-              siblingIndex: layout.siblingIndex,
-              level: layout.level
-            }
-          };
-          
-          return query(
-            'UPDATE branches SET metadata = $1 WHERE id = $2',
-            [JSON.stringify(updatedMetadata), branch.id]
-          );
-        })
-      );
+      // 4. Store the layout, replacing the previous one of this algorithm unless the
+      // project changed meanwhile
+      await saveLayout(projectId, 'tree', layoutResult, version);
     } catch (error) {
       console.error('Error updating branch positions:', error);
       throw error;
@@ -231,13 +220,29 @@ export class TreeBasedLayoutService {
       isLeftChild: false
     };
     
-    // Process children
-    childIds.forEach((childId, index) => {
-      const childNode = this.buildTree(childId, hierarchy, branches);
+    // Process children in creation order so repeated layouts are stable
+    const children = childIds
+      .map(childId => branches.find(b => b.id === childId))
+      .filter((child): child is Branch => !!child)
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    
+    // Number of children already placed at each branch point
+    const forkCounts = new Map<string, number>();
+    
+    children.forEach((child, index) => {
+      const childNode = this.buildTree(child.id, hierarchy, branches);
       childNode.siblingIndex = index;
       
-      // Mark even-indexed children as "right" and odd-indexed as "left"
-      childNode.isLeftChild = index % 2 !== 0;
+      const forkKey = child.branch_point_node_id || '';
+      const forkIndex = forkCounts.get(forkKey) || 0;
+      forkCounts.set(forkKey, forkIndex + 1);
+      
+      // Respect an explicit direction; otherwise children of the same branch point
+      // alternate right (even) and left (odd)
+      const direction = child.metadata?.layout?.direction;
+      childNode.isLeftChild = direction === 'left' || direction === 'right'
+        ? direction === 'left'
+        : forkIndex % 2 !== 0;
       
       node.children.push(childNode);
     });
@@ -283,28 +288,28 @@ export class TreeBasedLayoutService {
       let leftPosition = 0;
       let rightPosition = 0;
       
-      // Position children on left side (odd indices)
+      // Position children on left side; the modifier is the distance from the parent
       const leftChildren = node.children.filter(child => child.isLeftChild);
       if (leftChildren.length > 0) {
-        // Sort left children by preliminary position
-        leftChildren.sort((a, b) => a.prelim - b.prelim);
+        // Earlier branches stay closest to the parent
+        leftChildren.sort((a, b) => a.siblingIndex - b.siblingIndex);
         
         // Calculate positions from right to left
         let currentPosition = 0;
-        for (let i = leftChildren.length - 1; i >= 0; i--) {
+        for (let i = 0; i < leftChildren.length; i++) {
           const child = leftChildren[i];
           child.modifier = currentPosition;
-          currentPosition -= (this.HORIZONTAL_SPACING + child.width);
+          currentPosition += (this.HORIZONTAL_SPACING + child.width);
         }
         
-        leftPosition = currentPosition + this.HORIZONTAL_SPACING;
+        leftPosition = -(currentPosition - this.HORIZONTAL_SPACING);
       }
       
-      // Position children on right side (even indices)
+      // Position children on right side
       const rightChildren = node.children.filter(child => !child.isLeftChild);
       if (rightChildren.length > 0) {
-        // Sort right children by preliminary position
-        rightChildren.sort((a, b) => a.prelim - b.prelim);
+        // Earlier branches stay closest to the parent
+        rightChildren.sort((a, b) => a.siblingIndex - b.siblingIndex);
         
         // Calculate positions from left to right
         let currentPosition = 0;
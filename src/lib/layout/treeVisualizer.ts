@@ -36,8 +36,8 @@ export class TreeVisualizer {
     // Start with the branch info
     const branchInfo = `[Branch: ${branch.name || 'Unnamed'} (${branch.id.substring(0, 8)}), depth: ${branch.depth}, direction: ${branch.metadata?.layout?.direction || 'none'}]`;
     
-    // Add the branch's position if available
-    const position = branch.metadata?.layout 
+    // Add the branch's position if available; computed positions live in the layout cache
+    const position = typeof branch.metadata?.layout?.x === 'number'
       ? ` @ (${branch.metadata.layout.x}, ${branch.metadata.layout.y})`
       : '';
     
@@ -172,7 +172,7 @@ export class TreeVisualizer {
       
       for (const branch of depthBranches) {
         const layout = branch.metadata?.layout;
-        const position = layout ? `(${layout.x}, ${layout.y})` : '(no position)';
+        const position = typeof layout?.x === 'number' ? `(${layout.x}, ${layout.y})` : '(no position)';
         const direction = layout?.direction ? layout.direction : 'none';
         
         summary += `  - ${branch.name || 'Unnamed'} (${branch.id.substring(0, 8)}): ${position}, dir: ${direction}\n`;
@@ -0,0 +1,82 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { DEFAULT_MAX_TOKENS, LLMCompletion, LLMProvider, LLMRequest, LLMStreamEvent } from './types';
+
+/**
+ * AnthropicProvider
+ *
+ * Adapter for the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly defaultModel: string;
+  private readonly client: Anthropic;
+
+  constructor(options: { apiKey?: string; defaultModel?: string } = {}) {
+    this.client = new Anthropic({
+      apiKey: options.apiKey ?? process.env.ANTHROPIC_API_KEY ?? '',
+    });
+    this.defaultModel = options.defaultModel || 'claude-3-5-haiku-20241022';
+  }
+
+  /**
+   * Build the request parameters shared by complete and stream
+   */
+  private buildParams(request: LLMRequest) {
+    return {
+      model: request.model || this.defaultModel,
+      max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+      messages: request.messages,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.top_p !== undefined ? { top_p: request.top_p } : {}),
+      ...(request.stop_sequences?.length ? { stop_sequences: request.stop_sequences } : {}),
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const params = this.buildParams(request);
+    const response = await this.client.messages.create(params, { signal: request.signal });
+
+    const text = response.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+
+    return {
+      text,
+      model: response.model,
+      usage: {
+        input_tokens: response.usage.input_tokens,
+        output_tokens: response.usage.output_tokens
+      }
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const params = this.buildParams(request);
+    const events = await this.client.messages.create(
+      { ...params, stream: true },
+      { signal: request.signal }
+    );
+
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of events) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+        outputTokens = event.message.usage.output_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        if (event.delta.text) {
+          yield { type: 'text', text: event.delta.text };
+        }
+      } else if (event.type === 'message_delta') {
+        // The delta usage is cumulative for output tokens
+        outputTokens = event.usage.output_tokens;
+      }
+    }
+
+    yield { type: 'usage', usage: { input_tokens: inputTokens, output_tokens: outputTokens } };
+  }
+}
+
+export default AnthropicProvider;
@@ -0,0 +1,77 @@
+import { LLMCompletion, LLMProvider, LLMRequest, LLMStreamEvent } from './types';
+
+/**
+ * FixtureProvider
+ *
+ * Deterministic local provider for offline development and tests. Replies with a
+ * fixture response when the last user message matches one exactly, and otherwise
+ * echoes the last user message back. No network access or API key is needed.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+  readonly defaultModel = 'fixture-echo';
+  private readonly fixtures: Record<string, string>;
+
+  constructor(options: { fixtures?: Record<string, string> } = {}) {
+    this.fixtures = options.fixtures || {};
+  }
+
+  /**
+   * Pick the response for a request
+   */
+  private respond(request: LLMRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const prompt = lastUserMessage?.content || '';
+
+    let text = this.fixtures[prompt] ?? `Echo: ${prompt}`;
+
+    // Honour stop sequences the same way a real model would
+    for (const stop of request.stop_sequences || []) {
+      const index = text.indexOf(stop);
+      if (stop && index !== -1) {
+        text = text.slice(0, index);
+      }
+    }
+
+    return text;
+  }
+
+  /**
+   * Rough token count so usage numbers are stable across runs
+   */
+  private countTokens(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const text = this.respond(request);
+    const input = [request.system || '', ...request.messages.map(message => message.content)].join(' ');
+
+    return {
+      text,
+      model: request.model || this.defaultModel,
+      usage: {
+        input_tokens: this.countTokens(input),
+        output_tokens: this.countTokens(text)
+      }
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const completion = await this.complete(request);
+
+    // Emit one word (with its trailing whitespace) per chunk
+    for (const chunk of completion.text.match(/\S+\s*|\s+/g) || []) {
+      if (request.signal?.aborted) {
+        return;
+      }
+      yield { type: 'text', text: chunk };
+    }
+
+    if (completion.usage) {
+      yield { type: 'usage', usage: completion.usage };
+    }
+  }
+}
+
+export default FixtureProvider;
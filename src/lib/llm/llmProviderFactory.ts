@@ -0,0 +1,73 @@
+import { query } from '@/lib/db';
+import { ProjectSettings } from '@/lib/types/database';
+import AnthropicProvider from './anthropicProvider';
+import FixtureProvider from './fixtureProvider';
+import OpenAICompatibleProvider from './openAICompatibleProvider';
+import { LLMProvider } from './types';
+
+export type LLMProviderType = 'anthropic' | 'openai-compatible' | 'fixture';
+
+// Provider configuration stored under `settings.llm` of a project
+export interface LLMProviderSettings {
+  provider?: LLMProviderType;
+  base_url?: string;                 // openai-compatible only
+  default_model?: string;
+  fixtures?: Record<string, string>; // fixture only: last user message -> response
+}
+
+const PROVIDER_TYPES: LLMProviderType[] = ['anthropic', 'openai-compatible', 'fixture'];
+
+/**
+ * Factory for creating LLM providers
+ *
+ * The provider is chosen from the project's `settings.llm.provider`, then the
+ * `LLM_PROVIDER` environment variable, and defaults to Anthropic.
+ */
+export class LLMProviderFactory {
+  /**
+   * Get a provider instance for the specified type
+   */
+  static getProvider(type: LLMProviderType = 'anthropic', settings: LLMProviderSettings = {}): LLMProvider {
+    switch (type) {
+      case 'openai-compatible':
+        return new OpenAICompatibleProvider({
+          baseUrl: settings.base_url,
+          defaultModel: settings.default_model
+        });
+      case 'fixture':
+        return new FixtureProvider({ fixtures: settings.fixtures });
+      case 'anthropic':
+      default:
+        return new AnthropicProvider({ defaultModel: settings.default_model });
+    }
+  }
+
+  /**
+   * Resolve the provider type from project settings and the environment
+   */
+  static resolveProviderType(settings?: LLMProviderSettings | null): LLMProviderType {
+    const candidates = [settings?.provider, process.env.LLM_PROVIDER];
+    const type = candidates.find((candidate): candidate is LLMProviderType =>
+      PROVIDER_TYPES.includes(candidate as LLMProviderType)
+    );
+    return type || 'anthropic';
+  }
+
+  /**
+   * Get the provider configured for a project's settings
+   */
+  static getProviderForSettings(settings?: ProjectSettings | null): LLMProvider {
+    const llmSettings: LLMProviderSettings = settings?.llm || {};
+    return LLMProviderFactory.getProvider(LLMProviderFactory.resolveProviderType(llmSettings), llmSettings);
+  }
+
+  /**
+   * Load a project's settings and get its configured provider
+   */
+  static async getProviderForProject(projectId: string): Promise<LLMProvider> {
+    const result = await query('SELECT settings FROM projects WHERE id = $1', [projectId]);
+    return LLMProviderFactory.getProviderForSettings(result.rows[0]?.settings);
+  }
+}
+
+export default LLMProviderFactory;
@@ -0,0 +1,134 @@
+import { DEFAULT_MAX_TOKENS, LLMCompletion, LLMProvider, LLMRequest, LLMStreamEvent, LLMUsage } from './types';
+
+// Subset of the chat completions response we rely on
+interface ChatCompletionResponse {
+  model: string;
+  choices: { message?: { content?: string | null }; delta?: { content?: string | null } }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+/**
+ * OpenAICompatibleProvider
+ *
+ * Adapter for any endpoint implementing the OpenAI chat completions API
+ * (OpenAI itself, vLLM, Ollama, LM Studio, llama.cpp server, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  readonly defaultModel: string;
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+
+  constructor(options: { baseUrl?: string; apiKey?: string; defaultModel?: string } = {}) {
+    this.baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY ?? '';
+    this.defaultModel = options.defaultModel || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  }
+
+  /**
+   * Build the chat completions request body
+   */
+  private buildBody(request: LLMRequest, stream: boolean) {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages
+    ];
+
+    return {
+      model: request.model || this.defaultModel,
+      max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+      messages,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.top_p !== undefined ? { top_p: request.top_p } : {}),
+      ...(request.stop_sequences?.length ? { stop: request.stop_sequences } : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(this.buildBody(request, stream)),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`Chat completions request failed with status ${response.status}: ${details}`);
+    }
+
+    return response;
+  }
+
+  private toUsage(usage: ChatCompletionResponse['usage']): LLMUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      input_tokens: usage.prompt_tokens,
+      output_tokens: usage.completion_tokens
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const data = await response.json() as ChatCompletionResponse;
+
+    return {
+      text: data.choices[0]?.message?.content || '',
+      model: data.model,
+      usage: this.toUsage(data.usage)
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const response = await this.post(request, true);
+
+    if (!response.body) {
+      throw new Error('Response body is null');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let usage: LLMUsage | undefined;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Server-sent events are separated by newlines; keep the trailing partial line
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') continue;
+
+          const chunk = JSON.parse(payload) as ChatCompletionResponse;
+          const text = chunk.choices[0]?.delta?.content;
+          if (text) {
+            yield { type: 'text', text };
+          }
+          usage = this.toUsage(chunk.usage) || usage;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    if (usage) {
+      yield { type: 'usage', usage };
+    }
+  }
+}
+
+export default OpenAICompatibleProvider;
@@ -0,0 +1,52 @@
+import { LLMUsage } from './types';
+
+// Price in US dollars per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// List prices of known models, matched by prefix so dated releases share a price
+const MODEL_PRICING: [prefix: string, pricing: ModelPricing][] = [
+  ['claude-opus-4', { input: 15, output: 75 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3-opus', { input: 15, output: 75 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['fixture-', { input: 0, output: 0 }]
+];
+
+/**
+ * Get the price of a model, or null when it is unknown (e.g. a local model)
+ */
+export function getModelPricing(model: string | null | undefined): ModelPricing | null {
+  if (!model) return null;
+  const match = MODEL_PRICING.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : null;
+}
+
+/**
+ * Estimate the cost of a completion in US dollars
+ * @returns The cost, or null when the price of the model is unknown
+ */
+export function estimateCost(model: string | null | undefined, usage: LLMUsage): number | null {
+  const pricing = getModelPricing(model);
+  if (!pricing) return null;
+  return (usage.input_tokens * pricing.input + usage.output_tokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Format a cost for display, keeping small amounts readable
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return '<$0.01';
+  return `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,59 @@
+/**
+ * Shared types for the LLM provider layer
+ */
+
+export type LLMRole = 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  system?: string;
+  model?: string;               // Falls back to the provider's default model
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  signal?: AbortSignal;         // Aborts the upstream request
+}
+
+export interface LLMCompletion {
+  text: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+// Events yielded while streaming a completion
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'usage'; usage: LLMUsage };
+
+/**
+ * LLMProvider
+ *
+ * Common interface implemented by every model backend
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  /**
+   * Generate a full completion in one call
+   */
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+
+  /**
+   * Stream a completion as text deltas, followed by a usage event when the backend reports one
+   */
+  stream(request: LLMRequest): AsyncIterable<LLMStreamEvent>;
+}
+
+export const DEFAULT_MAX_TOKENS = 1000;
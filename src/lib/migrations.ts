@@ -0,0 +1,292 @@
+import fs from 'fs';
+import path from 'path';
+import { Pool, PoolClient } from 'pg';
+
+// Migration files are named <version>_<name>.sql or <version>_<name>.ts, e.g. 0002_add_column.sql
+const MIGRATION_FILE_PATTERN = /^(\d{4,})_([\w-]+)\.(sql|ts)$/;
+
+// Markers separating the up and down sections of a SQL migration
+const SQL_UP_MARKER = /^--\s*migrate:up\s*$/m;
+const SQL_DOWN_MARKER = /^--\s*migrate:down\s*$/m;
+
+// Arbitrary key of the advisory lock that keeps two runners from migrating at once
+const MIGRATION_LOCK_KEY = 727274;
+
+/**
+ * Shape of a TypeScript migration module
+ *
+ * Both functions receive a client inside the transaction of the migration.
+ */
+export interface MigrationModule {
+	up: (client: PoolClient) => Promise<void>;
+	down?: (client: PoolClient) => Promise<void>;
+}
+
+export interface Migration {
+	version: string;
+	name: string;
+	file: string;
+	up: (client: PoolClient) => Promise<void>;
+	down?: (client: PoolClient) => Promise<void>;
+}
+
+export interface AppliedMigration {
+	version: string;
+	name: string;
+	applied_at: string;
+}
+
+export interface MigrationStatus {
+	migration: Migration;
+	applied_at: string | null;
+}
+
+/**
+ * Split a SQL migration into its up and down sections
+ *
+ * A file without markers is treated as an up-only migration.
+ */
+export function parseSqlMigration(sql: string): { up: string; down: string | null } {
+	const upMatch = SQL_UP_MARKER.exec(sql);
+	const downMatch = SQL_DOWN_MARKER.exec(sql);
+
+	if (!upMatch) {
+		return { up: sql.trim(), down: null };
+	}
+
+	const upStart = upMatch.index + upMatch[0].length;
+	if (!downMatch || downMatch.index < upStart) {
+		return { up: sql.slice(upStart).trim(), down: null };
+	}
+
+	return {
+		up: sql.slice(upStart, downMatch.index).trim(),
+		down: sql.slice(downMatch.index + downMatch[0].length).trim() || null
+	};
+}
+
+/**
+ * Load all migrations from a directory, ordered by version
+ * @param directory Directory containing the migration files
+ */
+export async function loadMigrations(directory: string): Promise<Migration[]> {
+	const migrations: Migration[] = [];
+
+	for (const file of fs.readdirSync(directory).sort()) {
+		const match = MIGRATION_FILE_PATTERN.exec(file);
+		if (!match) continue;
+
+		const [, version, name, extension] = match;
+		const filePath = path.join(directory, file);
+
+		if (migrations.some(migration => migration.version === version)) {
+			throw new Error(`Duplicate migration version ${version} (${file})`);
+		}
+
+		if (extension === 'sql') {
+			const { up, down } = parseSqlMigration(fs.readFileSync(filePath, 'utf8'));
+			migrations.push({
+				version,
+				name,
+				file,
+				up: async (client) => { await client.query(up); },
+				down: down ? async (client) => { await client.query(down); } : undefined
+			});
+		} else {
+			const migrationModule: MigrationModule = await import(filePath);
+			if (typeof migrationModule.up !== 'function') {
+				throw new Error(`Migration ${file} does not export an up function`);
+			}
+			migrations.push({
+				version,
+				name,
+				file,
+				up: migrationModule.up,
+				down: migrationModule.down
+			});
+		}
+	}
+
+	return migrations;
+}
+
+/**
+ * Create the table recording applied migrations if it does not exist
+ */
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS schema_migrations (
+			version VARCHAR(255) PRIMARY KEY,
+			name VARCHAR(255) NOT NULL,
+			applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+		)
+	`);
+}
+
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+	const result = await client.query(
+		'SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC'
+	);
+	return result.rows;
+}
+
+/**
+ * Run a function with a dedicated client holding the migration lock
+ */
+async function withMigrationLock<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+	const client = await pool.connect();
+
+	try {
+		await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+		try {
+			await ensureMigrationsTable(client);
+			return await fn(client);
+		} finally {
+			await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+		}
+	} finally {
+		client.release();
+	}
+}
+
+/**
+ * Run one migration step and record it in a single transaction
+ */
+async function runInTransaction(client: PoolClient, fn: () => Promise<void>): Promise<void> {
+	await client.query('BEGIN');
+	try {
+		await fn();
+		await client.query('COMMIT');
+	} catch (error) {
+		await client.query('ROLLBACK');
+		throw error;
+	}
+}
+
+/**
+ * Apply all pending migrations in version order
+ * @param pool Pool connected to the database to migrate
+ * @param migrations Migrations loaded with loadMigrations
+ * @param targetVersion Stop after applying this version
+ * @returns The migrations that were applied
+ */
+export async function migrateUp(
+	pool: Pool,
+	migrations: Migration[],
+	targetVersion?: string
+): Promise<Migration[]> {
+	return withMigrationLock(pool, async (client) => {
+		const applied = new Set((await getAppliedMigrations(client)).map(migration => migration.version));
+
+		// A database created from the old schema.sql has tables but no migration history
+		if (applied.size === 0) {
+			const existing = await client.query(`SELECT to_regclass('public.projects') AS table_name`);
+			if (existing.rows[0].table_name) {
+				throw new Error(
+					'The database already has a schema but no migration history. ' +
+					'Run the baseline command with the version it matches (e.g. 0001) first.'
+				);
+			}
+		}
+
+		const pending = migrations.filter(migration =>
+			!applied.has(migration.version) &&
+			(!targetVersion || migration.version <= targetVersion)
+		);
+
+		for (const migration of pending) {
+			console.log(`Applying ${migration.file}`);
+			await runInTransaction(client, async () => {
+				await migration.up(client);
+				await client.query(
+					'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+					[migration.version, migration.name]
+				);
+			});
+		}
+
+		return pending;
+	});
+}
+
+/**
+ * Revert the most recently applied migrations
+ * @param pool Pool connected to the database to migrate
+ * @param migrations Migrations loaded with loadMigrations
+ * @param steps Number of migrations to revert
+ * @returns The migrations that were reverted
+ */
+export async function migrateDown(
+	pool: Pool,
+	migrations: Migration[],
+	steps: number = 1
+): Promise<Migration[]> {
+	return withMigrationLock(pool, async (client) => {
+		const applied = await getAppliedMigrations(client);
+		const toRevert = applied.slice(-steps).reverse();
+		const reverted: Migration[] = [];
+
+		for (const appliedMigration of toRevert) {
+			const migration = migrations.find(m => m.version === appliedMigration.version);
+			if (!migration) {
+				throw new Error(`Migration file for applied version ${appliedMigration.version} not found`);
+			}
+			if (!migration.down) {
+				throw new Error(`Migration ${migration.file} cannot be reverted: it has no down section`);
+			}
+
+			console.log(`Reverting ${migration.file}`);
+			await runInTransaction(client, async () => {
+				await migration.down!(client);
+				await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+			});
+			reverted.push(migration);
+		}
+
+		return reverted;
+	});
+}
+
+/**
+ * Mark migrations up to a version as applied without running them
+ *
+ * Used once for databases that were created from the schema file before migrations existed.
+ * @returns The migrations that were recorded
+ */
+export async function baselineMigrations(
+	pool: Pool,
+	migrations: Migration[],
+	version: string
+): Promise<Migration[]> {
+	return withMigrationLock(pool, async (client) => {
+		const applied = new Set((await getAppliedMigrations(client)).map(migration => migration.version));
+		const toRecord = migrations.filter(migration =>
+			migration.version <= version && !applied.has(migration.version)
+		);
+
+		for (const migration of toRecord) {
+			await client.query(
+				'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+				[migration.version, migration.name]
+			);
+		}
+
+		return toRecord;
+	});
+}
+
+/**
+ * Get every known migration with the time it was applied, if it was
+ */
+export async function getMigrationStatus(pool: Pool, migrations: Migration[]): Promise<MigrationStatus[]> {
+	return withMigrationLock(pool, async (client) => {
+		const applied = new Map(
+			(await getAppliedMigrations(client)).map(migration => [migration.version, migration.applied_at])
+		);
+
+		return migrations.map(migration => ({
+			migration,
+			applied_at: applied.get(migration.version) ?? null
+		}));
+	});
+}
@@ -0,0 +1,55 @@
+import { query } from '@/lib/db';
+import { BranchNote } from '@/lib/types/database';
+
+// Latest note of a branch together with the name of the branch it belongs to
+export interface BranchNoteContext extends BranchNote {
+	branch_name: string | null;
+	depth: number;
+}
+
+/**
+ * Get the latest note version for a branch and each of its ancestor branches
+ * @param branchId Branch to start from
+ * @returns Notes ordered from the main line down to the given branch
+ */
+export async function getBranchNotesWithAncestors(branchId: string): Promise<BranchNoteContext[]> {
+	const result = await query(`
+		WITH RECURSIVE lineage AS (
+			SELECT id, name, parent_branch_id, depth
+			FROM branches
+			WHERE id = $1
+			UNION ALL
+			SELECT b.id, b.name, b.parent_branch_id, b.depth
+			FROM branches b
+			JOIN lineage l ON b.id = l.parent_branch_id
+		)
+		SELECT DISTINCT ON (n.branch_id)
+			n.*,
+			l.name AS branch_name,
+			l.depth
+		FROM branch_notes n
+		JOIN lineage l ON n.branch_id = l.id
+		ORDER BY n.branch_id, n.version DESC
+	`, [branchId]);
+
+	return (result.rows as BranchNoteContext[])
+		.filter(note => note.content.trim().length > 0)
+		.sort((a, b) => a.depth - b.depth);
+}
+
+/**
+ * Format branch notes as a system prompt section
+ * @param notes Notes ordered from the main line down to the current branch
+ * @returns Prompt text, or an empty string when there are no notes
+ */
+export function formatNotesForPrompt(notes: BranchNoteContext[]): string {
+	if (notes.length === 0) {
+		return '';
+	}
+
+	const sections = notes.map(note =>
+		`### ${note.branch_name || 'Unnamed Branch'}\n${note.content.trim()}`
+	);
+
+	return `The user has attached the following notes to this conversation branch and the branches it grew from. Treat them as lasting context for your responses:\n\n${sections.join('\n\n')}`;
+}
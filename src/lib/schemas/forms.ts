@@ -19,5 +19,15 @@ export const expertFormSchema = z.object({
 	metadata: z.record(z.any()).nullable()
 });
 
+export const generationSettingsSchema = z.object({
+	model: z.string().trim().min(1, "Model name cannot be empty").optional(),
+	temperature: z.number().min(0, "Temperature must be at least 0").max(2, "Temperature must be at most 2").optional(),
+	max_tokens: z.number().int("Max tokens must be a whole number").min(1, "Max tokens must be at least 1").max(64000, "Max tokens must be at most 64000").optional(),
+	top_p: z.number().min(0, "Top P must be at least 0").max(1, "Top P must be at most 1").optional(),
+	stop_sequences: z.array(z.string().min(1)).max(4, "At most 4 stop sequences are allowed").optional(),
+	system_prompt: z.string().max(10000, "System prompt must be at most 10000 characters").optional()
+}).strict();
+
 export type ProjectFormValues = z.infer<typeof projectFormSchema>;
-export type ExpertFormValues = z.infer<typeof expertFormSchema>; 
\ No newline at end of file
+export type ExpertFormValues = z.infer<typeof expertFormSchema>; 
+export type GenerationSettingsValues = z.infer<typeof generationSettingsSchema>;
@@ -1,4 +1,33 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMStreamEvent, LLMUsage } from '@/lib/llm/types';
+
+/**
+ * Ids sent at the start of an assistant response stream
+ */
+export interface StreamStartMetadata {
+  user_message_id: string;
+  assistant_message_id: string;
+  branch_id: string;
+}
+
+/**
+ * Frames of the assistant response stream
+ *
+ * A stream opens with `start`, carries the text as `delta` frames and ends with `done`,
+ * or with `error` when generation failed. `usage` is sent before `done` when known.
+ */
+export type StreamEvent =
+  | ({ type: 'start' } & StreamStartMetadata)
+  | { type: 'delta'; text: string }
+  | { type: 'usage'; usage: LLMUsage }
+  | { type: 'error'; message: string }
+  | { type: 'done'; stopped: boolean };
+
+/**
+ * Serialize a frame in the server-sent events format
+ */
+export function encodeStreamEvent(event: StreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
 
 /**
  * Custom StreamingTextResponse class that properly formats the response headers
@@ -25,77 +54,113 @@ export class StreamingTextResponse extends Response {
 }
 
 /**
- * Convert an Anthropic streaming response into a web standard ReadableStream
+ * Convert a provider stream into the frames of an assistant response
+ *
+ * An aborted provider stream ends with a `done` frame marked as stopped instead of an
+ * `error` frame. `onFinal` runs before the last frame with whatever text was generated
+ * and the error the stream failed with, if any.
  */
-export function AnthropicStream(
-  stream: AsyncIterable<Anthropic.MessageStreamEvent>,
+export async function* LLMEventStream(
+  stream: AsyncIterable<LLMStreamEvent>,
   options?: {
-    onFinal?: (completion: string) => Promise<void> | void;
+    start?: StreamStartMetadata;
+    onFinal?: (completion: string, usage?: LLMUsage, stopped?: boolean, error?: string | null) => Promise<void> | void;
+    abortController?: AbortController;
   }
-): ReadableStream {
-  const encoder = new TextEncoder();
+): AsyncGenerator<StreamEvent> {
+  const abortController = options?.abortController;
   let fullText = '';
+  let usage: LLMUsage | undefined;
+  let errorMessage: string | null = null;
 
-  return new ReadableStream({
-    async start(controller) {
-      const reader = stream[Symbol.asyncIterator]();
-
-      try {
-        while (true) {
-          const { done, value } = await reader.next();
-          if (done) break;
-
-          if (value.type === 'content_block_delta' && value.delta.type === 'text_delta') {
-            const text = value.delta.text;
-            if (text) {
-              fullText += text;
-              controller.enqueue(encoder.encode(text));
-            }
-          }
-        }
-      } catch (error) {
-        controller.error(error);
-      } finally {
-        if (options?.onFinal) {
-          await options.onFinal(fullText);
-        }
-        controller.close();
+  if (options?.start) {
+    yield { type: 'start', ...options.start };
+  }
+
+  try {
+    for await (const event of stream) {
+      if (event.type === 'text') {
+        fullText += event.text;
+        yield { type: 'delta', text: event.text };
+      } else if (event.type === 'usage') {
+        usage = event.usage;
       }
     }
-  });
+  } catch (error) {
+    // A stop is not an error: keep what was generated so far
+    if (!abortController?.signal.aborted) {
+      console.error('Error while streaming response:', error);
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  const stopped = Boolean(abortController?.signal.aborted);
+  if (options?.onFinal) {
+    await options.onFinal(fullText, usage, stopped, errorMessage);
+  }
+
+  if (usage) {
+    yield { type: 'usage', usage };
+  }
+  yield errorMessage !== null
+    ? { type: 'error', message: errorMessage }
+    : { type: 'done', stopped };
 }
 
 /**
- * Process a streaming response from the server
+ * Read the frames of an assistant response stream
+ *
+ * Yields every frame in order and returns once the stream ends. Aborting the request
+ * rejects the pending read with an AbortError.
  */
-export async function processStreamingResponse(
-  response: Response,
-  onChunk: (text: string) => void,
-  onComplete?: () => void
-): Promise<string> {
+export async function* readStreamEvents(response: Response): AsyncGenerator<StreamEvent> {
   if (!response.body) {
     throw new Error('Response body is null');
   }
-  
+
   const reader = response.body.getReader();
   const decoder = new TextDecoder();
-  let accumulatedText = '';
-  
+  let buffer = '';
+
   try {
     while (true) {
       const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Frames are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseStreamFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) {
+          yield event;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+
       if (done) break;
-      
-      const chunk = decoder.decode(value, { stream: true });
-      accumulatedText += chunk;
-      onChunk(accumulatedText);
     }
   } finally {
     reader.releaseLock();
-    if (onComplete) {
-      onComplete();
-    }
   }
-  
-  return accumulatedText;
-} 
\ No newline at end of file
+}
+
+/**
+ * Parse one server-sent event frame, ignoring comments and unknown frames
+ */
+function parseStreamFrame(frame: string): StreamEvent | null {
+  const data = frame
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+
+  if (!data) return null;
+
+  try {
+    const event = JSON.parse(data);
+    return event && typeof event.type === 'string' ? event as StreamEvent : null;
+  } catch {
+    return null;
+  }
+}
@@ -23,9 +23,20 @@ export interface ProjectContext {
 	[key: string]: any;
 }
 
+// Model and sampling settings used when generating assistant responses
+export interface GenerationSettings {
+	model?: string;
+	temperature?: number;
+	max_tokens?: number;
+	top_p?: number;
+	stop_sequences?: string[];
+	system_prompt?: string;
+}
+
 // Project settings types
 export interface ProjectSettings {
 	theme?: string;
+	generation?: GenerationSettings;
 	view_preferences?: {
 		[key: string]: any;
 	};
@@ -119,6 +130,17 @@ export interface Branch {
 	root_node_id?: string;
 }
 
+// Versioned note attached to a branch
+export interface BranchNote {
+	id: string;
+	branch_id: string;
+	project_id: string;
+	version: number;
+	content: string;
+	created_by: string;
+	created_at: string;
+}
+
 // Helper type for creating new projects
 export type CreateProject = Omit<Project, 'id' | 'created_at' | 'updated_at'>;
 
@@ -135,6 +157,64 @@ export type UpdateExpert = Partial<CreateExpert>;
 export type NodeType = 'root' | 'branch-root' | 'user-message' | 'assistant-message' | 'branch-point';
 export type NodeStatus = 'active' | 'archived' | 'hidden' | 'featured';
 
+// Rolling summary cached on a message node, covering it and all of its ancestors
+export interface ContextSummary {
+	text: string;
+	node_count: number;         // Number of messages the summary covers
+	created_at: string;
+}
+
+// Tokens spent writing a rolling summary
+export interface ContextSummaryUsage {
+	model: string;
+	input_tokens: number;
+	output_tokens: number;
+}
+
+// Context-window details recorded on an assistant message
+export interface MessageContextInfo {
+	estimated_tokens: number;
+	summarized_node_ids: string[];
+	summary_node_id?: string;   // Node holding the summary that was sent
+	summary_usage?: ContextSummaryUsage;   // Only when the summary was written for this message
+}
+
+// Token usage and estimated cost of the assistant messages of a branch or project
+export interface UsageSummary {
+	message_count: number;
+	input_tokens: number;
+	output_tokens: number;
+	cost_usd: number;
+	unpriced_message_count: number;   // Messages of models without a known price, not in cost_usd
+	average_latency_ms: number | null;
+	models: string[];
+}
+
+// Usage of a project in total and per branch
+export interface ProjectUsage {
+	total: UsageSummary;
+	branches: Record<string, UsageSummary>;
+}
+
+// Part of a search snippet; matched words are highlighted
+export interface SearchSnippetPart {
+	text: string;
+	highlighted: boolean;
+}
+
+// Message matching a search query
+export interface SearchResult {
+	node_id: string;
+	branch_id: string;
+	branch_name: string | null;
+	branch_color: string | null;
+	branch_depth: number;
+	type: NodeType;
+	created_at: string;
+	snippet: SearchSnippetPart[];
+	rank: number;
+}
+
 // OptimisticProps interface for the properties shared by optimistic messages
 export interface OptimisticProps {
 	optimistic?: boolean;
@@ -162,6 +242,11 @@ export interface TimelineNode {
 	parent_branch_name?: string;
 	parent_branch_color?: string;
 	metadata?: Record<string, any>;
+	// Recorded on assistant messages
+	input_tokens?: number | null;
+	output_tokens?: number | null;
+	model?: string | null;
+	latency_ms?: number | null;
 	optimistic?: boolean;
 	isLoading?: boolean;
 	isStreaming?: boolean;
@@ -218,4 +303,9 @@ export interface Branch {
 	branch_parent_message_id?: string;
 	child_branch_count?: number;
 	metadata?: Record<string, any> | null;
-} 
\ No newline at end of file
+} 
+// Change to a node or branch of a project, published to clients as it happens
+export type ProjectChangeEvent =
+	| { entity: 'node'; action: 'created' | 'updated'; id: string; data: TimelineNode }
+	| { entity: 'branch'; action: 'created' | 'updated'; id: string; data: Branch }
+	| { entity: 'node' | 'branch'; action: 'deleted'; id: string };
@@ -0,0 +1,130 @@
+import { query } from '@/lib/db';
+import { estimateCost } from '@/lib/llm/pricing';
+import { ProjectUsage, UsageSummary } from '@/lib/types/database';
+
+// Usage of the assistant messages of one branch with one model, or of the summaries written for them
+interface UsageRow {
+	branch_id: string;
+	model: string | null;
+	message_count: string;
+	input_tokens: string;
+	output_tokens: string;
+	latency_sum: string | null;
+	latency_count: string;
+}
+
+function emptySummary(): UsageSummary {
+	return {
+		message_count: 0,
+		input_tokens: 0,
+		output_tokens: 0,
+		cost_usd: 0,
+		unpriced_message_count: 0,
+		average_latency_ms: null,
+		models: []
+	};
+}
+
+/**
+ * Add up usage rows; the cost is priced per model before summing
+ */
+function summarize(rows: UsageRow[]): UsageSummary {
+	const summary = emptySummary();
+	let latencySum = 0;
+	let latencyCount = 0;
+
+	for (const row of rows) {
+		const messageCount = Number(row.message_count);
+		const usage = {
+			input_tokens: Number(row.input_tokens),
+			output_tokens: Number(row.output_tokens)
+		};
+
+		summary.message_count += messageCount;
+		summary.input_tokens += usage.input_tokens;
+		summary.output_tokens += usage.output_tokens;
+
+		const cost = estimateCost(row.model, usage);
+		if (cost === null) {
+			summary.unpriced_message_count += messageCount;
+		} else {
+			summary.cost_usd += cost;
+		}
+
+		if (row.model && !summary.models.includes(row.model)) {
+			summary.models.push(row.model);
+		}
+
+		latencySum += Number(row.latency_sum || 0);
+		latencyCount += Number(row.latency_count);
+	}
+
+	summary.average_latency_ms = latencyCount > 0 ? Math.round(latencySum / latencyCount) : null;
+	return summary;
+}
+
+/**
+ * Load usage of assistant messages grouped by branch and model
+ *
+ * Rolling summaries written to fit a history into the context window are recorded on the
+ * message that needed them and count as usage of that branch, without counting as messages.
+ */
+async function loadUsageRows(condition: string, params: unknown[]): Promise<UsageRow[]> {
+	const result = await query(`
+		SELECT branch_id,
+			model,
+			COUNT(*) AS message_count,
+			COALESCE(SUM(input_tokens), 0) AS input_tokens,
+			COALESCE(SUM(output_tokens), 0) AS output_tokens,
+			SUM(latency_ms) AS latency_sum,
+			COUNT(latency_ms) AS latency_count
+		FROM timeline_nodes
+		WHERE ${condition}
+			AND type = 'assistant-message'
+			AND output_tokens IS NOT NULL
+		GROUP BY branch_id, model
+		UNION ALL
+		SELECT branch_id,
+			metadata->'context'->'summary_usage'->>'model' AS model,
+			0 AS message_count,
+			SUM((metadata->'context'->'summary_usage'->>'input_tokens')::integer) AS input_tokens,
+			SUM((metadata->'context'->'summary_usage'->>'output_tokens')::integer) AS output_tokens,
+			NULL AS latency_sum,
+			0 AS latency_count
+		FROM timeline_nodes
+		WHERE ${condition}
+			AND type = 'assistant-message'
+			AND metadata->'context' ? 'summary_usage'
+		GROUP BY branch_id, metadata->'context'->'summary_usage'->>'model'
+	`, params);
+	return result.rows;
+}
+
+/**
+ * Get the token usage and estimated cost of a project, in total and per branch
+ */
+export async function getProjectUsage(projectId: string): Promise<ProjectUsage> {
+	const rows = await loadUsageRows('project_id = $1', [projectId]);
+
+	const rowsByBranch = new Map<string, UsageRow[]>();
+	rows.forEach(row => {
+		if (!rowsByBranch.has(row.branch_id)) {
+			rowsByBranch.set(row.branch_id, []);
+		}
+		rowsByBranch.get(row.branch_id)!.push(row);
+	});
+
+	const branches: Record<string, UsageSummary> = {};
+	rowsByBranch.forEach((branchRows, branchId) => {
+		branches[branchId] = summarize(branchRows);
+	});
+
+	return { total: summarize(rows), branches };
+}
+
+/**
+ * Get the token usage and estimated cost of the messages on a branch
+ */
+export async function getBranchUsage(branchId: string): Promise<UsageSummary> {
+	return summarize(await loadUsageRows('branch_id = $1', [branchId]));
+}
@@ -34,4 +34,17 @@ export async function createEmptyNode({
     console.error('Failed to create node:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Get the ids of messages that the latest assistant response on a path only saw as a summary
+ */
+export function getSummarizedNodeIds(nodes: TimelineNode[]): Set<string> {
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    if (node.type === 'assistant-message' && node.metadata?.context) {
+      return new Set<string>(node.metadata.context.summarized_node_ids || []);
+    }
+  }
+  return new Set<string>();
+}